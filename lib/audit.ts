@@ -0,0 +1,82 @@
+import {Diagnostic, ErrorCode, formatDiagnostic, formatErrorCode} from './diagnostic';
+
+/** The translatability of a single file. */
+export interface FileAudit {
+  passed: boolean;
+  errors: number;
+  warnings: number;
+}
+
+/**
+ * Summarizes how much of a program can be translated, as produced by `Transpiler.audit`.
+ */
+export interface AuditReport {
+  /** Per input file, keyed by the file name relative to the base path. */
+  files: {[fileName: string]: FileAudit};
+  /** Number of occurrences of each unsupported `ts.SyntaxKind`, keyed by its name. */
+  unsupportedKinds: {[kind: string]: number};
+  /** Number of problems (errors and warnings) per code. */
+  codes: {[code: string]: number};
+  /** Property accesses that could not be translated as builtins for lack of type information. */
+  untypedPropertyAccesses: Diagnostic[];
+}
+
+function increment(counts: {[key: string]: number}, key: string) {
+  counts[key] = (counts[key] || 0) + 1;
+}
+
+/**
+ * Builds a report from the diagnostics collected while translating `fileNames`.
+ * @param fileNames The translated files, relative to the base path.
+ */
+export function createAuditReport(fileNames: string[], diagnostics: Diagnostic[]): AuditReport {
+  let report:
+      AuditReport = {files: {}, unsupportedKinds: {}, codes: {}, untypedPropertyAccesses: []};
+  fileNames.forEach((f) => report.files[f] = {passed: true, errors: 0, warnings: 0});
+  diagnostics.forEach((d) => {
+    increment(report.codes, d.code);
+    if (d.code === formatErrorCode(ErrorCode.UnsupportedNode)) {
+      increment(report.unsupportedKinds, d.kind);
+    } else if (d.code === formatErrorCode(ErrorCode.UntypedPropertyAccess)) {
+      report.untypedPropertyAccesses.push(d);
+    }
+    let file = d.file && report.files[d.file];
+    if (!file) return;
+    if (d.severity === 'error') {
+      file.errors++;
+      file.passed = false;
+    } else {
+      file.warnings++;
+    }
+  });
+  return report;
+}
+
+/** Formats a report for human consumption, listing the most frequent problems first. */
+export function formatAuditReport(report: AuditReport): string {
+  let lines: string[] = [];
+  let fileNames = Object.keys(report.files).sort();
+  let failed = fileNames.filter((f) => !report.files[f].passed);
+  lines.push(`Files: ${fileNames.length - failed.length} passed, ${failed.length} failed`);
+  fileNames.forEach((f) => {
+    let file = report.files[f];
+    let status = file.passed ? 'pass' : 'FAIL';
+    lines.push(`  ${status} ${f} (${file.errors} error(s), ${file.warnings} warning(s))`);
+  });
+
+  let addCounts = (title: string, counts: {[key: string]: number}) => {
+    let keys = Object.keys(counts);
+    if (!keys.length) return;
+    lines.push(title);
+    keys.sort((a, b) => counts[b] - counts[a] || (a < b ? -1 : 1))
+        .forEach((k) => lines.push(`  ${k}: ${counts[k]}`));
+  };
+  addCounts('Unsupported syntax:', report.unsupportedKinds);
+  addCounts('Problems by code:', report.codes);
+
+  if (report.untypedPropertyAccesses.length) {
+    lines.push('Untyped property accesses:');
+    report.untypedPropertyAccesses.forEach((d) => lines.push('  ' + formatDiagnostic(d)));
+  }
+  return lines.join('\n');
+}
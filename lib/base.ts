@@ -1,8 +1,28 @@
 import * as ts from 'typescript';
 import {Transpiler} from './main';
+import {ErrorCode} from './diagnostic';
 
 export type ClassLike = ts.ClassDeclaration | ts.InterfaceDeclaration;
 
+// For the Dart keyword list see
+// https://www.dartlang.org/docs/dart-up-and-running/ch02.html#keywords
+export const DART_RESERVED_WORDS =
+    ('assert break case catch class const continue default do else enum extends false final ' +
+     'finally for if in is new null rethrow return super switch this throw true try var void ' +
+     'while with')
+        .split(/ /);
+
+/**
+ * Dart built-in identifiers that are escaped like reserved words when used as names, see
+ * `isReservedName`.
+ */
+export const DART_ESCAPED_BUILT_INS = ['external', 'factory', 'operator', 'part'];
+
+/** Whether `name` cannot be used as an identifier in Dart. */
+export function isReservedName(name: string): boolean {
+  return DART_RESERVED_WORDS.indexOf(name) !== -1 || DART_ESCAPED_BUILT_INS.indexOf(name) !== -1;
+}
+
 export function ident(n: ts.Node): string {
   if (n.kind === ts.SyntaxKind.Identifier) return (<ts.Identifier>n).text;
   if (n.kind === ts.SyntaxKind.QualifiedName) {
@@ -20,7 +40,23 @@ export class TranspilerBase {
   visit(n: ts.Node) { this.transpiler.visit(n); }
   emit(s: string) { this.transpiler.emit(s); }
   emitNoSpace(s: string) { this.transpiler.emitNoSpace(s); }
-  reportError(n: ts.Node, message: string) { this.transpiler.reportError(n, message); }
+  getOutput(): string { return this.transpiler.getOutput(); }
+  replaceOutput(start: number, end: number, s: string) {
+    this.transpiler.replaceOutput(start, end, s);
+  }
+  /**
+   * Reports a problem with `n`. Plugins can use their own codes, e.g. `'MY1000'`, which can be
+   * configured and suppressed like ts2dart's, see `TranspilerOptions.severities`.
+   */
+  reportError(n: ts.Node, message: string, code: ErrorCode|string) {
+    this.transpiler.reportError(n, message, code);
+  }
+  reportUnsupported(n: ts.Node, message: string, code: ErrorCode|string) {
+    this.transpiler.reportUnsupported(n, message, code);
+  }
+  getTypeChecker(): ts.TypeChecker { return this.transpiler.getTypeChecker(); }
+  recordImport(uri: string) { this.transpiler.recordImport(uri); }
+  resolveModule(moduleName: string): string { return this.transpiler.resolveModule(moduleName); }
 
   visitNode(n: ts.Node): boolean { throw new Error('not implemented'); }
 
@@ -42,9 +78,9 @@ export class TranspilerBase {
     return `_${name}\$\$ts2dart\$${id}`;
   }
 
-  assert(c: ts.Node, condition: boolean, reason: string): void {
+  assert(c: ts.Node, condition: boolean, reason: string, code: ErrorCode): void {
     if (!condition) {
-      this.reportError(c, reason);
+      this.reportError(c, reason, code);
       throw new Error(reason);
     }
   }
@@ -89,13 +125,15 @@ export class TranspilerBase {
     }
     let indexSig = <ts.IndexSignatureDeclaration>(members[0]);
     if (indexSig.parameters.length > 1) {
-      this.reportError(indexSig, 'Expected an index signature to have a single parameter');
+      this.reportError(
+          indexSig, 'Expected an index signature to have a single parameter',
+          ErrorCode.IndexSignatureParameters);
     }
     return [indexSig.parameters[0].type, indexSig.type];
   }
 
 
-  getRelativeFileName(fileName: string): string {
+  getRelativeFileName(fileName?: string): string {
     return this.transpiler.getRelativeFileName(fileName);
   }
 
@@ -2,6 +2,7 @@ import ts = require('typescript');
 import base = require('./base');
 import ts2dart = require('./main');
 import {FacadeConverter} from './facade_converter';
+import {ErrorCode} from './diagnostic';
 
 export default class CallTranspiler extends base.TranspilerBase {
   constructor(tr: ts2dart.Transpiler, private fc: FacadeConverter) { super(tr); }
@@ -90,9 +91,12 @@ export default class CallTranspiler extends base.TranspilerBase {
     this.visitList(c.arguments.slice(0, len));
     if (len) this.emit(',');
     let props = objLit.properties;
+    let paramsType = this.getTypeChecker().getContextualType(objLit);
     for (let i = 0; i < props.length; i++) {
       let prop = <ts.PropertyAssignment>props[i];
-      this.emit(base.ident(prop.name));
+      let name = base.ident(prop.name);
+      let param = paramsType && this.getTypeChecker().getPropertyOfType(paramsType, name);
+      this.emit(param ? this.fc.escapeName(name, param) : name);
       this.emit(':');
       this.visit(prop.initializer);
       if (i < objLit.properties.length - 1) this.emit(',');
@@ -125,7 +129,9 @@ export default class CallTranspiler extends base.TranspilerBase {
     // Find super() calls and (if in a const ctor) collect assignment expressions (not statements!)
     body.statements.forEach((stmt) => {
       if (stmt.kind !== ts.SyntaxKind.ExpressionStatement) {
-        if (parentIsConst) this.reportError(stmt, errorAssignmentsSuper);
+        if (parentIsConst) {
+          this.reportError(stmt, errorAssignmentsSuper, ErrorCode.ConstConstructorBody);
+        }
         return;
       }
       let nestedExpr = (<ts.ExpressionStatement>stmt).expression;
@@ -134,7 +140,9 @@ export default class CallTranspiler extends base.TranspilerBase {
       if (nestedExpr.kind === ts.SyntaxKind.CallExpression) {
         let callExpr = <ts.CallExpression>nestedExpr;
         if (callExpr.expression.kind !== ts.SyntaxKind.SuperKeyword) {
-          if (parentIsConst) this.reportError(stmt, errorAssignmentsSuper);
+          if (parentIsConst) {
+            this.reportError(stmt, errorAssignmentsSuper, ErrorCode.ConstConstructorBody);
+          }
           return;
         }
         superCall = callExpr;
@@ -145,22 +153,22 @@ export default class CallTranspiler extends base.TranspilerBase {
       if (parentIsConst) {
         // Check for assignment.
         if (nestedExpr.kind !== ts.SyntaxKind.BinaryExpression) {
-          this.reportError(nestedExpr, errorAssignmentsSuper);
+          this.reportError(nestedExpr, errorAssignmentsSuper, ErrorCode.ConstConstructorBody);
           return;
         }
         let binExpr = <ts.BinaryExpression>nestedExpr;
         if (binExpr.operatorToken.kind !== ts.SyntaxKind.EqualsToken) {
-          this.reportError(binExpr, errorAssignmentsSuper);
+          this.reportError(binExpr, errorAssignmentsSuper, ErrorCode.ConstConstructorBody);
           return;
         }
         // Check for 'this.'
         if (binExpr.left.kind !== ts.SyntaxKind.PropertyAccessExpression) {
-          this.reportError(binExpr, errorThisAssignment);
+          this.reportError(binExpr, errorThisAssignment, ErrorCode.ConstConstructorAssignment);
           return;
         }
         let lhs = <ts.PropertyAccessExpression>binExpr.left;
         if (lhs.expression.kind !== ts.SyntaxKind.ThisKeyword) {
-          this.reportError(binExpr, errorThisAssignment);
+          this.reportError(binExpr, errorThisAssignment, ErrorCode.ConstConstructorAssignment);
           return;
         }
         let ident = lhs.name;
@@ -203,7 +211,9 @@ export default class CallTranspiler extends base.TranspilerBase {
     let ctorBody = exprStmt.parent;
     let ctor = ctorBody.parent;
     if (ctor.kind !== ts.SyntaxKind.Constructor) {
-      this.reportError(callExpr, 'super calls must be immediate children of their constructors');
+      this.reportError(
+          callExpr, 'super calls must be immediate children of their constructors',
+          ErrorCode.SuperCallPlacement);
       return false;
     }
     this.emit('/* super call moved to initializer */');
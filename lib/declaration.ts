@@ -2,6 +2,7 @@ import * as ts from 'typescript';
 import * as base from './base';
 import {Transpiler} from './main';
 import {FacadeConverter} from './facade_converter';
+import {ErrorCode} from './diagnostic';
 
 export default class DeclarationTranspiler extends base.TranspilerBase {
   constructor(
@@ -40,7 +41,8 @@ export default class DeclarationTranspiler extends base.TranspilerBase {
         // of a call signature (http://goo.gl/ROC5jN).
         if (ifDecl.members.length === 1 && ifDecl.members[0].kind === ts.SyntaxKind.CallSignature) {
           let member = <ts.CallSignatureDeclaration>ifDecl.members[0];
-          this.visitFunctionTypedefInterface(ifDecl.name.text, member, ifDecl.typeParameters);
+          let name = this.fc.getRename(ifDecl.name) || this.fc.getDartName(ifDecl.name);
+          this.visitFunctionTypedefInterface(name, member, ifDecl.typeParameters);
         } else {
           this.visitClassLike('abstract class', ifDecl);
         }
@@ -66,7 +68,7 @@ export default class DeclarationTranspiler extends base.TranspilerBase {
         // The only legal modifier for an enum decl is const.
         let isConst = decl.modifiers && (decl.modifiers.flags & ts.NodeFlags.Const);
         if (isConst) {
-          this.reportError(node, 'const enums are not supported');
+          this.reportError(node, 'const enums are not supported', ErrorCode.ConstEnum);
         }
         this.emit('enum');
         this.fc.visitTypeName(decl.name);
@@ -74,7 +76,7 @@ export default class DeclarationTranspiler extends base.TranspilerBase {
         // Enums can be empty in TS ...
         if (decl.members.length === 0) {
           // ... but not in Dart.
-          this.reportError(node, 'empty enums are not supported');
+          this.reportError(node, 'empty enums are not supported', ErrorCode.EmptyEnum);
         }
         this.visitList(decl.members);
         this.emit('}');
@@ -83,7 +85,7 @@ export default class DeclarationTranspiler extends base.TranspilerBase {
         let member = <ts.EnumMember>node;
         this.visit(member.name);
         if (member.initializer) {
-          this.reportError(node, 'enum initializers are not supported');
+          this.reportError(node, 'enum initializers are not supported', ErrorCode.EnumInitializer);
         }
         break;
       case ts.SyntaxKind.Constructor:
@@ -96,7 +98,9 @@ export default class DeclarationTranspiler extends base.TranspilerBase {
             break;
           }
         }
-        if (!className) this.reportError(ctorDecl, 'cannot find outer class node');
+        if (!className) {
+          this.reportError(ctorDecl, 'cannot find outer class node', ErrorCode.Internal);
+        }
         this.visitDeclarationMetadata(ctorDecl);
         if (this.isConst(<base.ClassLike>ctorDecl.parent)) {
           this.emit('const');
@@ -170,7 +174,9 @@ export default class DeclarationTranspiler extends base.TranspilerBase {
           }
           break;
         }
-        if (paramDecl.dotDotDotToken) this.reportError(node, 'rest parameters are unsupported');
+        if (paramDecl.dotDotDotToken) {
+          this.reportError(node, 'rest parameters are unsupported', ErrorCode.RestParameter);
+        }
         if (paramDecl.name.kind === ts.SyntaxKind.ObjectBindingPattern) {
           this.visitNamedParameter(paramDecl);
           break;
@@ -183,7 +189,7 @@ export default class DeclarationTranspiler extends base.TranspilerBase {
           let hasRestParameter = fnType.parameters.some(p => !!p.dotDotDotToken);
           if (hasRestParameter) {
             // Dart does not support rest parameters/varargs, degenerate to just "Function".
-            this.emit('Function');
+            this.emit(this.fc.getCoreName('Function'));
             this.visit(paramDecl.name);
           } else {
             this.visit(fnType.type);
@@ -253,12 +259,12 @@ export default class DeclarationTranspiler extends base.TranspilerBase {
       if (!varDecl.type) {
         if (!isFinal) this.emit('var');
       } else if (varDecl.parent.declarations.length > 1) {
-        this.reportError(varDecl, msg);
+        this.reportError(varDecl, msg, ErrorCode.TypedDeclarationList);
       } else {
         this.visit(varDecl.type);
       }
     } else if (varDecl.type) {
-      this.reportError(varDecl, msg);
+      this.reportError(varDecl, msg, ErrorCode.TypedDeclarationList);
     }
   }
 
@@ -278,7 +284,12 @@ export default class DeclarationTranspiler extends base.TranspilerBase {
         }
       }
       if (accessor) this.emit(accessor);
-      if (fn.name) this.visit(fn.name);
+      if (fn.name) {
+        this.visit(fn.name);
+      } else if (fn.kind === ts.SyntaxKind.FunctionDeclaration) {
+        // `export default function() {}`.
+        this.emit(this.fc.getDefaultExportName(fn));
+      }
       if (fn.typeParameters) {
         this.emit('/*<');
         // Emit the names literally instead of visiting, otherwise they will be replaced with the
@@ -291,7 +302,7 @@ export default class DeclarationTranspiler extends base.TranspilerBase {
         this.visitParameters(fn.parameters);
       } else {
         if (fn.parameters && fn.parameters.length > 0) {
-          this.reportError(fn, 'getter should not accept parameters');
+          this.reportError(fn, 'getter should not accept parameters', ErrorCode.GetterParameters);
         }
       }
       if (fn.body) {
@@ -366,7 +377,12 @@ export default class DeclarationTranspiler extends base.TranspilerBase {
   private visitClassLike(keyword: string, decl: base.ClassLike) {
     this.visitDecorators(decl.decorators);
     this.emit(keyword);
-    this.fc.visitTypeName(decl.name);
+    if (decl.name) {
+      this.fc.visitTypeName(decl.name);
+    } else {
+      // `export default class {}`.
+      this.emit(this.fc.getDefaultExportName(decl));
+    }
     if (decl.typeParameters) {
       this.emit('<');
       this.visitList(decl.typeParameters);
@@ -428,7 +444,8 @@ export default class DeclarationTranspiler extends base.TranspilerBase {
     this.visitEachIfPresent(decl.modifiers);
 
     if (this.hasFlag(decl.modifiers, ts.NodeFlags.Protected)) {
-      this.reportError(decl, 'protected declarations are unsupported');
+      this.reportError(
+          decl, 'protected declarations are unsupported', ErrorCode.ProtectedDeclaration);
       return;
     }
     if (!this.enforceUnderscoreConventions) return;
@@ -439,10 +456,12 @@ export default class DeclarationTranspiler extends base.TranspilerBase {
     let isPrivate = this.hasFlag(decl.modifiers, ts.NodeFlags.Private);
     let matchesPrivate = !!name.match(/^_/);
     if (isPrivate && !matchesPrivate) {
-      this.reportError(decl, 'private members must be prefixed with "_"');
+      this.reportError(
+          decl, 'private members must be prefixed with "_"', ErrorCode.PrivateWithoutUnderscore);
     }
     if (!isPrivate && matchesPrivate) {
-      this.reportError(decl, 'public members must not be prefixed with "_"');
+      this.reportError(
+          decl, 'public members must not be prefixed with "_"', ErrorCode.PublicWithUnderscore);
     }
   }
 
@@ -458,7 +477,9 @@ export default class DeclarationTranspiler extends base.TranspilerBase {
       if (propDecl) this.visit(propDecl.type);
       this.visit(elem.name);
       if (elem.initializer && initMap[base.ident(elem.name)]) {
-        this.reportError(elem, 'cannot have both an inner and outer initializer');
+        this.reportError(
+            elem, 'cannot have both an inner and outer initializer',
+            ErrorCode.NamedParameterDoubleInitializer);
       }
       let init = elem.initializer || initMap[base.ident(elem.name)];
       if (init) {
@@ -474,12 +495,16 @@ export default class DeclarationTranspiler extends base.TranspilerBase {
     let res: ts.Map<ts.Expression> = {};
     if (!paramDecl.initializer) return res;
     if (paramDecl.initializer.kind !== ts.SyntaxKind.ObjectLiteralExpression) {
-      this.reportError(paramDecl, 'initializers for named parameters must be object literals');
+      this.reportError(
+          paramDecl, 'initializers for named parameters must be object literals',
+          ErrorCode.NamedParameterInitializer);
       return res;
     }
     for (let i of (<ts.ObjectLiteralExpression>paramDecl.initializer).properties) {
       if (i.kind !== ts.SyntaxKind.PropertyAssignment) {
-        this.reportError(i, 'named parameter initializers must be properties, got ' + i.kind);
+        this.reportError(
+            i, 'named parameter initializers must be properties, got ' + i.kind,
+            ErrorCode.NamedParameterInitializerProperty);
         continue;
       }
       let ole = <ts.PropertyAssignment>i;
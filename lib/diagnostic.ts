@@ -0,0 +1,151 @@
+import * as ts from 'typescript';
+
+/**
+ * Stable codes for all problems reported by ts2dart. Tools can rely on these codes, so existing
+ * codes must never be renumbered or reused, even if the corresponding check is removed.
+ */
+export enum ErrorCode {
+  // Unsupported syntax.
+  UnsupportedNode = 1000,
+  InOperator = 1001,
+  DeleteOperator = 1002,
+  VoidOperator = 1003,
+  TypeOfOperator = 1004,
+  RegExpWithoutGlobalFlag = 1005,
+  RestParameter = 1006,
+  ObjectLiteralType = 1007,
+  IndexSignatureParameters = 1008,
+
+  // Declarations.
+  ConstEnum = 1100,
+  EmptyEnum = 1101,
+  EnumInitializer = 1102,
+  ProtectedDeclaration = 1103,
+  PrivateWithoutUnderscore = 1104,
+  PublicWithUnderscore = 1105,
+  TypedDeclarationList = 1106,
+  GetterParameters = 1107,
+  NamedParameterDoubleInitializer = 1108,
+  NamedParameterInitializer = 1109,
+  NamedParameterInitializerProperty = 1110,
+  NamedParameterProperty = 1111,
+  ReservedWordName = 1112,
+
+  // Constructors and calls.
+  ConstConstructorBody = 1200,
+  ConstConstructorAssignment = 1201,
+  SuperCallPlacement = 1202,
+
+  // Imports and exports.
+  BareImport = 1300,
+  EmptyImportList = 1301,
+  EmptyExportList = 1302,
+  ImportExportRename = 1303,
+  ReExportWithoutURL = 1304,
+  NamespaceStatement = 1305,
+
+  // Builtins and facades.
+  UntypedPropertyAccess = 1400,
+  MissingDeclaration = 1401,
+  Substr = 1402,
+  ArrayConcatArgument = 1403,
+  MapForEachCallback = 1404,
+  ConstMapArguments = 1405,
+  ForwardRefArgument = 1406,
+  PromiseConstruction = 1407,
+
+  // Internal errors.
+  Internal = 9000,
+  DartFormatter = 9001,
+  InputSourceMap = 9002,
+}
+
+/**
+ * How a problem is reported: errors fail the translation, warnings are reported without failing it.
+ */
+export type Severity = 'error' | 'warning';
+
+/**
+ * Problems that are reported as warnings by default, as the translation is usable, but might behave
+ * differently. All other problems are errors.
+ */
+const WARNINGS =
+    [ErrorCode.RegExpWithoutGlobalFlag, ErrorCode.ProtectedDeclaration, ErrorCode.Substr];
+
+export function getDefaultSeverity(code: ErrorCode | string): Severity {
+  return WARNINGS.indexOf(<ErrorCode>code) !== -1 ? 'warning' : 'error';
+}
+
+/**
+ * A problem found while translating, in a form suitable for tools. Positions are 1-based.
+ */
+export interface Diagnostic {
+  /** The file name, relative to the base path. Absent for global diagnostics. */
+  file?: string;
+  line?: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+  severity: Severity;
+  /**
+   * A stable code, `TS2Dnnnn` for ts2dart's own problems, `TSnnnn` for TypeScript's. Plugins report
+   * problems with their own codes.
+   */
+  code: string;
+  message: string;
+  /** The name of the offending node's `ts.SyntaxKind`, if any. */
+  kind?: string;
+}
+
+/** The error thrown when translation fails, carrying all diagnostics. */
+export interface TS2DartError extends Error { diagnostics: Diagnostic[]; }
+
+/** Returns the code of a ts2dart problem, e.g. `TS2D1000`. Codes of plugins are kept as they are.
+ */
+export function formatErrorCode(code: ErrorCode | string): string {
+  return typeof code === 'string' ? code : 'TS2D' + code;
+}
+
+/**
+ * Formats a diagnostic for human consumption, as `file:line:column: code: message`. Warnings are
+ * marked as such.
+ */
+export function formatDiagnostic(d: Diagnostic): string {
+  let location = d.file ? `${d.file}:${d.line}:${d.column}: ` : '';
+  let severity = d.severity === 'warning' ? 'warning ' : '';
+  return `${location}${severity}${d.code}: ${d.message}`;
+}
+
+/** Orders diagnostics by file and location, files without location first. */
+export function compareDiagnostics(a: Diagnostic, b: Diagnostic): number {
+  let keys = (d: Diagnostic) => [d.file || '', d.line || 0, d.column || 0, d.code, d.message];
+  let aKeys = keys(a), bKeys = keys(b);
+  for (let i = 0; i < aKeys.length; i++) {
+    if (aKeys[i] < bKeys[i]) return -1;
+    if (aKeys[i] > bKeys[i]) return 1;
+  }
+  return 0;
+}
+
+/** Creates the error thrown when translation fails. */
+export function createError(diagnostics: Diagnostic[]): TS2DartError {
+  let e = <TS2DartError>new Error(diagnostics.map(formatDiagnostic).join('\n'));
+  e.name = 'TS2DartError';
+  e.diagnostics = diagnostics;
+  return e;
+}
+
+/**
+ * Returns whether a problem with `code` on the (0-based) `line` is suppressed by a
+ * `// ts2dart-disable-next-line [codes...]` comment on the preceding line. Without codes, the
+ * comment suppresses all problems.
+ */
+export function isSuppressed(file: ts.SourceFile, line: number, code: string): boolean {
+  if (line === 0) return false;
+  let text = file.text.substring(
+      file.getPositionOfLineAndCharacter(line - 1, 0), file.getPositionOfLineAndCharacter(line, 0));
+  let match = text.match(/\/\/\s*ts2dart-disable-next-line\b(.*)$/m);
+  if (!match) return false;
+  let codes = match[1].split(/[\s,]+/).filter((c) => c.length > 0);
+  return codes.length === 0 || codes.indexOf(code) !== -1;
+}
@@ -2,6 +2,7 @@ import * as ts from 'typescript';
 import * as base from './base';
 import {Transpiler} from './main';
 import {FacadeConverter} from './facade_converter';
+import {ErrorCode} from './diagnostic';
 
 export default class ExpressionTranspiler extends base.TranspilerBase {
   constructor(tr: Transpiler, private fc: FacadeConverter) { super(tr); }
@@ -48,7 +49,7 @@ export default class ExpressionTranspiler extends base.TranspilerBase {
             this.visitAndWrapAsInt(binExpr.right);
             break;
           case ts.SyntaxKind.InKeyword:
-            this.reportError(node, 'in operator is unsupported');
+            this.reportUnsupported(node, 'in operator is unsupported', ErrorCode.InOperator);
             break;
           case ts.SyntaxKind.InstanceOfKeyword:
             this.visit(binExpr.left);
@@ -87,13 +88,13 @@ export default class ExpressionTranspiler extends base.TranspilerBase {
         this.visit(conditional.whenFalse);
         break;
       case ts.SyntaxKind.DeleteExpression:
-        this.reportError(node, 'delete operator is unsupported');
+        this.reportUnsupported(node, 'delete operator is unsupported', ErrorCode.DeleteOperator);
         break;
       case ts.SyntaxKind.VoidExpression:
-        this.reportError(node, 'void operator is unsupported');
+        this.reportUnsupported(node, 'void operator is unsupported', ErrorCode.VoidOperator);
         break;
       case ts.SyntaxKind.TypeOfExpression:
-        this.reportError(node, 'typeof operator is unsupported');
+        this.reportUnsupported(node, 'typeof operator is unsupported', ErrorCode.TypeOfOperator);
         break;
 
       case ts.SyntaxKind.ParenthesizedExpression:
@@ -112,6 +113,12 @@ export default class ExpressionTranspiler extends base.TranspilerBase {
           this.visit(propAccess.expression);
           this.emitNoSpace('_stack');
         } else {
+          // Declarations in namespaces are flattened, see `FacadeConverter.getNamespacedName`.
+          let rename = this.fc.getRename(propAccess.name);
+          if (rename !== null) {
+            this.fc.emitReference(rename);
+            break;
+          }
           if (this.fc.handlePropertyAccess(propAccess)) break;
           this.visit(propAccess.expression);
           this.emit('.');
@@ -0,0 +1,58 @@
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+
+/**
+ * Translations for the declarations of a single typings module. Names are qualified as in
+ * `Map.set`, for a method `set` of the class or interface `Map`.
+ *
+ * Call and property translations are either plain names, which rename the method, function or
+ * property, or templates such as `$0.fold($2, $1)`, where `$0` is the receiver, and `$1`... are
+ * the call's arguments.
+ */
+export interface FacadeModuleConfig {
+  /** Type renames, e.g. `{"Dict": "Map"}`. */
+  types?: {[name: string]: string};
+  /** Translations of method, function and constructor calls. */
+  calls?: {[name: string]: string};
+  /** Translations of property accesses. */
+  properties?: {[name: string]: string};
+  /** Constructors to call without `new`, i.e. factory functions in Dart. */
+  dropNew?: string[];
+  /** Dart imports required by files using any of the translated declarations. */
+  imports?: string[];
+  /**
+   * Names that are never imported from the module, e.g. because the Dart library does not declare
+   * them.
+   */
+  ignoredImports?: string[];
+}
+
+/**
+ * Facade translations, keyed by canonical module name, i.e. the typings file name without
+ * extension, relative to the base path, `node_modules` or the typings root, e.g.
+ * `es6-shim/es6-shim`.
+ */
+export type FacadeConfig = {
+  [moduleName: string]: FacadeModuleConfig
+};
+
+const MODULE_CONFIG_KEYS = ['types', 'calls', 'properties', 'dropNew', 'imports', 'ignoredImports'];
+
+/** Reads a JSON or YAML (`.yaml` or `.yml`) facade configuration file. */
+export function loadFacadeConfig(fileName: string): FacadeConfig {
+  let text = fs.readFileSync(fileName, 'utf-8');
+  let config: FacadeConfig;
+  try {
+    config = fileName.match(/\.ya?ml$/) ? yaml.safeLoad(text) : JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Cannot parse facade config ${fileName}: ${e.message}`);
+  }
+  for (let moduleName of Object.keys(config || {})) {
+    for (let key of Object.keys(config[moduleName])) {
+      if (MODULE_CONFIG_KEYS.indexOf(key) === -1) {
+        throw new Error(`Unknown key "${key}" for module ${moduleName} in ${fileName}`);
+      }
+    }
+  }
+  return config || {};
+}
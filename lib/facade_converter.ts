@@ -1,6 +1,8 @@
 import * as base from './base';
 import * as ts from 'typescript';
 import {Transpiler} from './main';
+import {ErrorCode} from './diagnostic';
+import {FacadeConfig} from './facade_config';
 
 type CallHandler = (c: ts.CallExpression, context: ts.Expression) => void;
 type PropertyHandler = (c: ts.PropertyAccessExpression) => void;
@@ -22,6 +24,14 @@ function merge(...args: {[key: string]: any}[]): {[key: string]: any} {
   return returnObject;
 }
 
+/** Whether `n` names a member of another value, e.g. `b` in `a.b`, as opposed to a reference. */
+function isMemberName(n: ts.EntityName): boolean {
+  let parent = n.parent;
+  if (parent.kind === ts.SyntaxKind.PropertyAccessExpression) {
+    return (<ts.PropertyAccessExpression>parent).name === n;
+  }
+  return parent.kind === ts.SyntaxKind.QualifiedName && (<ts.QualifiedName>parent).right === n;
+}
 
 export class FacadeConverter extends base.TranspilerBase {
   private tc: ts.TypeChecker;
@@ -29,8 +39,28 @@ export class FacadeConverter extends base.TranspilerBase {
   private candidateTypes: {[typeName: string]: boolean} = {};
   private typingsRootRegex: RegExp;
   private genericMethodDeclDepth = 0;
+  /** Dart imports required by declarations in the given modules, from facade configurations. */
+  private requiredImports: ts.Map<string[]> = {};
+  /** Names of declarations that might require imports. */
+  private importCandidates: {[name: string]: boolean} = {};
+  /** Names never imported from the given modules, see `FacadeModuleConfig.ignoredImports`. */
+  private ignoredImports: ts.Map<string[]> = {
+    'angular2/src/core/di/forward_ref': ['forwardRef'],
+    'angular2/src/facade/lang': ['CONST', 'CONST_EXPR', 'normalizeBlank', 'ABSTRACT', 'IMPLEMENTS'],
+  };
+  /** Replacements of references in the current file, keyed by name, see `addRename`. */
+  private renames: ts.Map<Array<{symbol: ts.Symbol, replacement: string}>> = {};
+  /** Names of declarations in namespaces, see `getNamespacedName`. */
+  private namespaceMembers: {[name: string]: boolean} = {};
+  /** dart:core names shadowed in the current file, see `setShadowedCoreNames`. */
+  private shadowedCoreNames: Set = {};
+  private corePrefix: string;
+  /** Names referenced by the output of the current file, see `recordReference`. */
+  private references: Array<{name: string, offset: number}> = [];
+  /** Identifiers used in source files, keyed by file name, see `getDefaultExportName`. */
+  private usedNames: ts.Map<{sourceFile: ts.SourceFile, names: Set}> = {};
 
-  constructor(transpiler: Transpiler, typingsRoot = '') {
+  constructor(transpiler: Transpiler, typingsRoot = '', private reportReservedWords = false) {
     super(transpiler);
     this.extractPropertyNames(this.callHandlers, this.candidateProperties);
     this.extractPropertyNames(this.propertyHandlers, this.candidateProperties);
@@ -50,6 +80,302 @@ export class FacadeConverter extends base.TranspilerBase {
 
   setTypeChecker(tc: ts.TypeChecker) { this.tc = tc; }
 
+  /** Clears the renames and references of the previous file. */
+  resetRenames() {
+    this.renames = {};
+    this.references = [];
+  }
+
+  /**
+   * Records that the output references `name` at its current end. For qualified names, e.g.
+   * `prefix.Foo`, the prefix is referenced.
+   */
+  recordReference(name: string) {
+    this.references.push({name: name.split('.')[0], offset: this.getOutput().length});
+  }
+
+  /** Emits the reference `name`, see `recordReference`. */
+  emitReference(name: string) {
+    this.recordReference(name);
+    this.emit(name);
+  }
+
+  /** Returns the names referenced by the output of the current file, with their output offsets. */
+  getReferences(): Array<{name: string, offset: number}> { return this.references; }
+
+  /**
+   * Emits `replacement` for all references to `symbol` in the current file, which are named `name`.
+   * For aliases, e.g. imports, references to the aliased symbol are replaced, too.
+   */
+  addRename(name: string, symbol: ts.Symbol, replacement: string) {
+    if (!this.renames.hasOwnProperty(name)) this.renames[name] = [];
+    this.renames[name].push({symbol, replacement});
+    if (symbol.flags & ts.SymbolFlags.Alias) {
+      let aliased = this.getTypeChecker().getAliasedSymbol(symbol);
+      if (aliased !== symbol) this.renames[name].push({symbol: aliased, replacement});
+    }
+  }
+
+  /** Returns the replacement of the reference `n`, or null if it is not renamed. */
+  getRename(n: ts.Identifier): string {
+    let isNamespaceMember = this.namespaceMembers.hasOwnProperty(n.text);
+    if (!this.renames.hasOwnProperty(n.text) && !isNamespaceMember) return null;
+    let symbol = this.getTypeChecker().getSymbolAtLocation(n);
+    let rename = this.getSymbolRename(n.text, symbol);
+    if (rename === null && isNamespaceMember && symbol) rename = this.getNamespacedName(symbol);
+    return rename;
+  }
+
+  /**
+   * Returns the Dart names to show when importing or exporting `n`. For namespaces, these are the
+   * flattened names of their declarations, see `getNamespacedName`.
+   */
+  getShownNames(n: ts.Identifier): string[] {
+    if (Object.keys(this.namespaceMembers).length === 0) return [n.text];
+    let tc = this.getTypeChecker();
+    let symbol = tc.getSymbolAtLocation(n);
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) symbol = tc.getAliasedSymbol(symbol);
+    let members = symbol ? this.getFlattenedMembers(symbol) : [];
+    if (members.length === 0) return [n.text];
+    // Namespaces merged with classes, functions or enums.
+    let isValue =
+        symbol.flags & (ts.SymbolFlags.Class | ts.SymbolFlags.Function | ts.SymbolFlags.Enum);
+    return isValue ? [symbol.name].concat(members) : members;
+  }
+
+  private getFlattenedMembers(namespace: ts.Symbol): string[] {
+    if (!(namespace.flags & ts.SymbolFlags.Namespace)) return [];
+    let members: string[] = [];
+    this.getTypeChecker().getExportsOfModule(namespace).forEach((member) => {
+      let nested = this.getFlattenedMembers(member);
+      let name = this.getNamespacedName(member);
+      if (name && !(member.flags & ts.SymbolFlags.Namespace && nested.length)) members.push(name);
+      members = members.concat(nested);
+    });
+    return members;
+  }
+
+  /** Finds the declarations in namespaces of the translated files, see `getNamespacedName`. */
+  findNamespaceMembers(sourceFiles: ts.SourceFile[]) {
+    this.namespaceMembers = {};
+    let visitStatements = (statements: ts.Node[]) => statements.forEach((stmt) => {
+      if (stmt.kind !== ts.SyntaxKind.ModuleDeclaration) return;
+      if ((<ts.ModuleDeclaration>stmt).name.kind !== ts.SyntaxKind.Identifier) return;
+      let body = (<ts.ModuleDeclaration>stmt).body;
+      if (body.kind === ts.SyntaxKind.ModuleDeclaration) {
+        visitStatements([body]);
+        return;
+      }
+      (<ts.ModuleBlock>body).statements.forEach((member) => {
+        let declarations: ts.Declaration[] = [<ts.Declaration><ts.Node>member];
+        if (member.kind === ts.SyntaxKind.VariableStatement) {
+          declarations = (<ts.VariableStatement>member).declarationList.declarations;
+        }
+        declarations.filter((d) => d.name && d.name.kind === ts.SyntaxKind.Identifier)
+            .forEach((d) => this.namespaceMembers[(<ts.Identifier>d.name).text] = true);
+      });
+      visitStatements((<ts.ModuleBlock>body).statements);
+    });
+    sourceFiles.filter((f) => !f.fileName.match(/\.d\.ts$/))
+        .forEach((f) => visitStatements(f.statements));
+  }
+
+  /**
+   * Dart has no namespaces, so declarations in namespaces are flattened into top-level declarations
+   * named after the namespace, e.g. `Foo_bar` for `bar` in `namespace Foo`, or `_Foo_bar` if `bar`
+   * is not exported. Declarations in typings are left unchanged.
+   * @return The name of `symbol`'s declaration, or null if it is not declared in a namespace.
+   */
+  getNamespacedName(symbol: ts.Symbol): string {
+    let decl = symbol.declarations && symbol.declarations[0];
+    if (!decl || !decl.name || decl.name.kind !== ts.SyntaxKind.Identifier) return null;
+    // Variables are declared in a declaration list, in a statement.
+    let stmt = decl.kind === ts.SyntaxKind.VariableDeclaration ? decl.parent.parent : decl;
+    if (!stmt.parent || stmt.parent.kind !== ts.SyntaxKind.ModuleBlock) return null;
+    if (decl.getSourceFile().fileName.match(/\.d\.ts$/)) return null;
+    let names = [(<ts.Identifier>decl.name).text];
+    let isPrivate = false;
+    for (let n: ts.Node = stmt; n.parent;) {
+      // `namespace A.B {}` nests B directly in A, `namespace A { namespace B {} }` in A's block.
+      let parent = n.parent.kind === ts.SyntaxKind.ModuleBlock ? n.parent.parent : n.parent;
+      if (parent.kind !== ts.SyntaxKind.ModuleDeclaration) break;
+      let name = base.ident((<ts.ModuleDeclaration>parent).name);
+      if (!name) return null;
+      let isExported = this.hasFlag(n, ts.NodeFlags.Export) || n.parent === parent;
+      if (!isExported && !this.hasFlag(parent, ts.NodeFlags.Ambient)) isPrivate = true;
+      names.unshift(name);
+      n = parent;
+    }
+    return (isPrivate ? '_' : '') + names.join('_');
+  }
+
+  /** Returns the replacement of references to `symbol` named `name`, or null. */
+  getSymbolRename(name: string, symbol: ts.Symbol): string {
+    if (!this.renames.hasOwnProperty(name)) return null;
+    let renames = this.renames[name].filter((r) => r.symbol === symbol);
+    return renames.length ? renames[0].replacement : null;
+  }
+
+  /**
+   * Returns the Dart name of the default export `decl`, i.e. the name of the declaration. Dart has
+   * no default exports, so `export default <expression>` and anonymous declarations are named
+   * after their file, e.g. `foo_bar` for `foo-bar.ts`.
+   */
+  getDefaultExportName(decl: ts.Declaration): string {
+    if (decl.kind !== ts.SyntaxKind.ExportAssignment && decl.name &&
+        decl.name.kind === ts.SyntaxKind.Identifier) {
+      let name = <ts.Identifier>decl.name;
+      return this.escapeName(name.text, this.getTypeChecker().getSymbolAtLocation(name));
+    }
+    let sourceFile = decl.getSourceFile();
+    let name = sourceFile.fileName.replace(/^.*\//, '').replace(/(\.d)?\.[jt]s$/, '');
+    name = name.replace(/\W/g, '_');
+    if (!name.match(/^[a-zA-Z_]/)) name = '_' + name;
+    let used = this.getUsedNames(sourceFile);
+    while (used[name] || base.isReservedName(name)) name += '_';
+    return name;
+  }
+
+  /** Returns the identifiers used in `sourceFile`, collected once per version of the file. */
+  private getUsedNames(sourceFile: ts.SourceFile): Set {
+    let cached = this.usedNames[sourceFile.fileName];
+    if (cached && cached.sourceFile === sourceFile) return cached.names;
+    let names: Set = {};
+    let collectNames = (n: ts.Node) => {
+      if (n.kind === ts.SyntaxKind.Identifier) names[(<ts.Identifier>n).text] = true;
+      ts.forEachChild(n, collectNames);
+    };
+    collectNames(sourceFile);
+    this.usedNames[sourceFile.fileName] = {sourceFile, names};
+    return names;
+  }
+
+  /**
+   * Qualifies the dart:core names in `names` with `prefix` in the current file, because its
+   * declarations or imports shadow them, see `getCoreName`.
+   */
+  setShadowedCoreNames(names: string[], prefix: string) {
+    this.shadowedCoreNames = {};
+    names.forEach((name) => this.shadowedCoreNames[name] = true);
+    this.corePrefix = prefix;
+  }
+
+  /** Returns a reference to `name` from dart:core, qualified if the current file shadows it. */
+  getCoreName(name: string): string {
+    if (!this.shadowedCoreNames[name]) return name;
+    this.recordReference(this.corePrefix);
+    return `${this.corePrefix}.${name}`;
+  }
+
+  /** Whether `spec` imports a name listed in `ignoredImports` for the module it imports from. */
+  isIgnoredImport(spec: ts.ImportSpecifier): boolean {
+    let name = (spec.propertyName || spec.name).text;
+    let modules =
+        Object.keys(this.ignoredImports).filter((m) => this.ignoredImports[m].indexOf(name) !== -1);
+    if (modules.length === 0) return false;
+    let tc = this.getTypeChecker();
+    let symbol = tc.getSymbolAtLocation(spec.name);
+    let target = symbol && tc.getAliasedSymbol(symbol);
+    let decl = target && target.declarations && target.declarations[0];
+    if (decl) {
+      return modules.indexOf(this.getCanonicalFileName(decl.getSourceFile().fileName)) !== -1;
+    }
+    // Without typings, fall back to the imported module name.
+    let importDecl = <ts.ImportDeclaration>this.getAncestor(spec, ts.SyntaxKind.ImportDeclaration);
+    return modules.indexOf((<ts.StringLiteral>importDecl.moduleSpecifier).text) !== -1;
+  }
+
+  /** Adds the translations declared in a facade configuration, see `FacadeModuleConfig`. */
+  addConfig(config: FacadeConfig) {
+    for (let moduleName of Object.keys(config)) {
+      let moduleConfig = config[moduleName];
+      let names: ts.Map<any> = {};
+      if (moduleConfig.types) {
+        this.TS_TO_DART_TYPENAMES[moduleName] =
+            merge(this.TS_TO_DART_TYPENAMES[moduleName] || {}, moduleConfig.types);
+        names = merge(names, moduleConfig.types);
+      }
+      if (moduleConfig.calls) {
+        let handlers: ts.Map<CallHandler> = {};
+        Object.keys(moduleConfig.calls)
+            .forEach((name) => handlers[name] = this.createCallHandler(moduleConfig.calls[name]));
+        this.callHandlers[moduleName] = merge(this.callHandlers[moduleName] || {}, handlers);
+        names = merge(names, handlers);
+      }
+      if (moduleConfig.properties) {
+        let handlers: ts.Map<PropertyHandler> = {};
+        Object.keys(moduleConfig.properties)
+            .forEach(
+                (name) => handlers[name] =
+                    this.createPropertyHandler(moduleConfig.properties[name]));
+        this.propertyHandlers[moduleName] =
+            merge(this.propertyHandlers[moduleName] || {}, handlers);
+        names = merge(names, handlers);
+      }
+      if (moduleConfig.dropNew) {
+        let dropNew: ts.Map<boolean> = {};
+        moduleConfig.dropNew.forEach((name) => dropNew[name] = true);
+        this.callHandlerReplaceNew[moduleName] =
+            merge(this.callHandlerReplaceNew[moduleName] || {}, dropNew);
+        names = merge(names, dropNew);
+      }
+      if (moduleConfig.imports) {
+        this.requiredImports[moduleName] = moduleConfig.imports;
+        this.extractPropertyNames({[moduleName]: names}, this.importCandidates);
+      }
+      if (moduleConfig.ignoredImports) {
+        this.ignoredImports[moduleName] =
+            (this.ignoredImports[moduleName] || []).concat(moduleConfig.ignoredImports);
+      }
+    }
+    this.extractPropertyNames(this.callHandlers, this.candidateProperties);
+    this.extractPropertyNames(this.propertyHandlers, this.candidateProperties);
+    this.extractPropertyNames(this.callHandlerReplaceNew, this.candidateProperties);
+    this.extractPropertyNames(this.TS_TO_DART_TYPENAMES, this.candidateTypes);
+  }
+
+  private createCallHandler(replacement: string): CallHandler {
+    return (c: ts.CallExpression, context: ts.Expression) => {
+      if (replacement.indexOf('$') !== -1) {
+        this.emitTemplate(replacement, [<ts.Node>context].concat(c.arguments || []));
+      } else if (context) {
+        this.visit(context);
+        this.emitMethodCall(replacement, c.arguments);
+      } else {
+        this.emitCall(replacement, c.arguments);
+      }
+    };
+  }
+
+  private createPropertyHandler(replacement: string): PropertyHandler {
+    return (p: ts.PropertyAccessExpression) => {
+      if (replacement.indexOf('$') !== -1) {
+        this.emitTemplate(replacement, [p.expression]);
+      } else {
+        this.visit(p.expression);
+        this.emit('.');
+        this.emit(replacement);
+      }
+    };
+  }
+
+  /**
+   * Emits `template`, replacing `$n` with the n-th node. Missing nodes, e.g. omitted optional
+   * arguments, are emitted as `null`.
+   */
+  private emitTemplate(template: string, nodes: ts.Node[]) {
+    template.split(/(\$\d+)/).forEach((part) => {
+      let match = part.match(/^\$(\d+)$/);
+      if (!match) {
+        if (part) this.emit(part);
+      } else if (nodes[Number(match[1])]) {
+        this.visit(nodes[Number(match[1])]);
+      } else {
+        this.emit('null');
+      }
+    });
+  }
+
   maybeHandleCall(c: ts.CallExpression): boolean {
     if (!this.tc) return false;
     let {context, symbol} = this.getCallInformation(c);
@@ -93,16 +419,34 @@ export class FacadeConverter extends base.TranspilerBase {
   private emitImports(
       n: ts.Node, libraries: ts.Map<string>, emitted: Set, sourceFile: ts.SourceFile): void {
     if (n.kind === ts.SyntaxKind.TypeReference) {
-      let type = base.ident((<ts.TypeReferenceNode>n).typeName);
-      if (libraries.hasOwnProperty(type)) {
+      let typeName = (<ts.TypeReferenceNode>n).typeName;
+      let type = base.ident(typeName);
+      let symbol = this.getTypeChecker().getSymbolAtLocation(typeName);
+      if (libraries.hasOwnProperty(type) && !this.isUserDeclared(symbol)) {
         let toEmit = libraries[type];
         if (!emitted[toEmit]) {
           this.emit(`import "${toEmit}";`);
+          this.recordImport(toEmit);
           emitted[toEmit] = true;
         }
       }
     }
 
+    if (n.kind === ts.SyntaxKind.Identifier && this.tc &&
+        this.importCandidates.hasOwnProperty((<ts.Identifier>n).text)) {
+      let symbol = this.tc.getSymbolAtLocation(n);
+      let loc = symbol && this.getFileAndName(n, symbol);
+      if (loc && this.requiredImports.hasOwnProperty(loc.fileName)) {
+        this.requiredImports[loc.fileName]
+            .filter((toEmit) => !emitted[toEmit])
+            .forEach((toEmit) => {
+              this.emit(`import "${toEmit}";`);
+              this.recordImport(toEmit);
+              emitted[toEmit] = true;
+            });
+      }
+    }
+
     n.getChildren(sourceFile)
         .forEach((child: ts.Node) => this.emitImports(child, libraries, emitted, sourceFile));
   }
@@ -128,7 +472,7 @@ export class FacadeConverter extends base.TranspilerBase {
           decl.kind !== ts.SyntaxKind.PropertySignature) {
         let msg = this.tc.getFullyQualifiedName(sym) +
             ' used for named parameter definition must be a property';
-        this.reportError(decl, msg);
+        this.reportError(decl, msg, ErrorCode.NamedParameterProperty);
         continue;
       }
       res[sym.name] = <ts.PropertyDeclaration>decl;
@@ -164,6 +508,11 @@ export class FacadeConverter extends base.TranspilerBase {
       return;
     }
     let ident = base.ident(typeName);
+    let rename = this.getRename(<ts.Identifier>typeName);
+    if (rename !== null) {
+      this.emitReference(rename);
+      return;
+    }
     if (this.isGenericMethodTypeParameterName(typeName)) {
       // DDC generic methods hack - all names that are type parameters to generic methods have to be
       // emitted in comments.
@@ -183,12 +532,51 @@ export class FacadeConverter extends base.TranspilerBase {
       if (fileAndName) {
         let fileSubs = this.TS_TO_DART_TYPENAMES[fileAndName.fileName];
         if (fileSubs && fileSubs.hasOwnProperty(fileAndName.qname)) {
-          this.emit(fileSubs[fileAndName.qname]);
+          this.emitReference(this.getCoreName(fileSubs[fileAndName.qname]));
           return;
         }
       }
     }
-    this.emit(ident);
+    let name = this.getDartName(<ts.Identifier>typeName);
+    if (isMemberName(typeName)) {
+      this.emit(name);
+    } else {
+      this.emitReference(name);
+    }
+  }
+
+  /**
+   * Returns the Dart name of the identifier `n`, see `escapeName`. With `reportReservedWords`,
+   * reports declarations named like Dart reserved words instead.
+   */
+  getDartName(n: ts.Identifier): string {
+    if (this.reportReservedWords && base.isReservedName(n.text) && this.isDeclarationName(n)) {
+      this.reportError(n, `${n.text} is a reserved word in Dart`, ErrorCode.ReservedWordName);
+    }
+    let symbol = this.getTypeChecker().getSymbolAtLocation(n);
+    // Unresolved references, e.g. to members of untyped values, are kept.
+    return symbol ? this.escapeName(n.text, symbol) : n.text;
+  }
+
+  /**
+   * Returns `name` with a trailing `$` if it is a Dart reserved word, e.g. `is$`, and the
+   * declaration `symbol` is in translated code. Declarations in typings keep their names, as their
+   * Dart counterparts are not generated by ts2dart. Without `symbol`, `name` is a new declaration.
+   * Nothing is escaped with `reportReservedWords`.
+   */
+  escapeName(name: string, symbol?: ts.Symbol): string {
+    if (this.reportReservedWords || !base.isReservedName(name)) return name;
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = this.getTypeChecker().getAliasedSymbol(symbol);
+    }
+    return !symbol || this.isUserDeclared(symbol) ? name + '$' : name;
+  }
+
+  /** Whether `n` is the name of a declaration, other than of an import or export alias. */
+  private isDeclarationName(n: ts.Identifier): boolean {
+    let symbol = this.getTypeChecker().getSymbolAtLocation(n);
+    if (!symbol || !symbol.declarations || symbol.flags & ts.SymbolFlags.Alias) return false;
+    return symbol.declarations.some((d) => <ts.Node>(<ts.Declaration>d).name === n);
   }
 
   shouldEmitNew(c: ts.CallExpression): boolean {
@@ -260,17 +648,15 @@ export class FacadeConverter extends base.TranspilerBase {
       // In the case of a pure declaration with no assignment, there is no value declared.
       // Just grab the first declaration, hoping it is declared once.
       if (!symbol.declarations || symbol.declarations.length === 0) {
-        this.reportError(n, 'no declarations for symbol ' + originalSymbol.name);
+        this.reportError(
+            n, 'no declarations for symbol ' + originalSymbol.name, ErrorCode.MissingDeclaration);
         return null;
       }
       decl = symbol.declarations[0];
     }
 
     const fileName = decl.getSourceFile().fileName;
-    const canonicalFileName = this.getRelativeFileName(fileName)
-                                  .replace(/(\.d)?\.ts$/, '')
-                                  .replace(FACADE_NODE_MODULES_PREFIX, '')
-                                  .replace(this.typingsRootRegex, '');
+    const canonicalFileName = this.getCanonicalFileName(fileName);
 
     let qname = this.tc.getFullyQualifiedName(symbol);
     // Some Qualified Names include their file name. Might be a bug in TypeScript,
@@ -282,6 +668,20 @@ export class FacadeConverter extends base.TranspilerBase {
     return {fileName: canonicalFileName, qname};
   }
 
+  /** Whether `symbol` is declared in translated code, as opposed to typings. */
+  private isUserDeclared(symbol: ts.Symbol): boolean {
+    let decl = symbol && symbol.declarations && symbol.declarations[0];
+    return !!decl && !decl.getSourceFile().fileName.match(/\.d\.ts$/);
+  }
+
+  /** Returns the module name that facade translations are keyed by, see `FacadeConfig`. */
+  private getCanonicalFileName(fileName: string): string {
+    return this.getRelativeFileName(fileName)
+        .replace(/(\.d)?\.ts$/, '')
+        .replace(FACADE_NODE_MODULES_PREFIX, '')
+        .replace(this.typingsRootRegex, '');
+  }
+
   private isNamedType(node: ts.Node, fileName: string, qname: string): boolean {
     let symbol = this.tc.getTypeAtLocation(node).getSymbol();
     if (!symbol) return false;
@@ -297,7 +697,8 @@ export class FacadeConverter extends base.TranspilerBase {
   private reportMissingType(n: ts.Node, ident: string) {
     this.reportError(
         n, `Untyped property access to "${ident}" which could be ` + `a special ts2dart builtin. ` +
-            `Please add type declarations to disambiguate.`);
+            `Please add type declarations to disambiguate.`,
+        ErrorCode.UntypedPropertyAccess);
   }
 
   isInsideConstExpr(node: ts.Node): boolean {
@@ -376,11 +777,14 @@ export class FacadeConverter extends base.TranspilerBase {
     },
     'Promise': (c: ts.CallExpression, context: ts.Expression) => {
       if (c.kind !== ts.SyntaxKind.NewExpression) return true;
-      this.assert(c, c.arguments.length === 1, 'Promise construction must take 2 arguments.');
+      this.assert(
+          c, c.arguments.length === 1, 'Promise construction must take 2 arguments.',
+          ErrorCode.PromiseConstruction);
       this.assert(
           c, c.arguments[0].kind === ts.SyntaxKind.ArrowFunction ||
               c.arguments[0].kind === ts.SyntaxKind.FunctionExpression,
-          'Promise argument must be a function expression (or arrow function).');
+          'Promise argument must be a function expression (or arrow function).',
+          ErrorCode.PromiseConstruction);
       let callback: ts.FunctionLikeDeclaration;
       if (c.arguments[0].kind === ts.SyntaxKind.ArrowFunction) {
         callback = <ts.FunctionLikeDeclaration>(<ts.ArrowFunction>c.arguments[0]);
@@ -389,12 +793,14 @@ export class FacadeConverter extends base.TranspilerBase {
       }
       this.assert(
           c, callback.parameters.length > 0 && callback.parameters.length < 3,
-          'Promise executor must take 1 or 2 arguments (resolve and reject).');
+          'Promise executor must take 1 or 2 arguments (resolve and reject).',
+          ErrorCode.PromiseConstruction);
 
       const completerVarName = this.uniqueId('completer');
       this.assert(
           c, callback.parameters[0].name.kind === ts.SyntaxKind.Identifier,
-          'First argument of the Promise executor is not a straight parameter.');
+          'First argument of the Promise executor is not a straight parameter.',
+          ErrorCode.PromiseConstruction);
       let resolveParameterIdent = <ts.Identifier>(callback.parameters[0].name);
 
       this.emit('(() {');  // Create a new scope.
@@ -406,7 +812,8 @@ export class FacadeConverter extends base.TranspilerBase {
       if (callback.parameters.length === 2) {
         this.assert(
             c, callback.parameters[1].name.kind === ts.SyntaxKind.Identifier,
-            'First argument of the Promise executor is not a straight parameter.');
+            'First argument of the Promise executor is not a straight parameter.',
+            ErrorCode.PromiseConstruction);
         let rejectParameterIdent = <ts.Identifier>(callback.parameters[1].name);
         this.emit('var');
         this.emit(rejectParameterIdent.text);
@@ -467,12 +874,15 @@ export class FacadeConverter extends base.TranspilerBase {
       this.emitCall('ListWrapper.splice', [context, ...c.arguments]);
     },
     'Array.concat': (c: ts.CallExpression, context: ts.Expression) => {
-      this.emit('( new List . from (');
+      this.emit('( new');
+      this.emit(this.getCoreName('List'));
+      this.emit('. from (');
       this.visit(context);
       this.emit(')');
       c.arguments.forEach(arg => {
         if (!this.isNamedType(arg, 'lib', 'Array')) {
-          this.reportError(arg, 'Array.concat only takes Array arguments');
+          this.reportError(
+              arg, 'Array.concat only takes Array arguments', ErrorCode.ArrayConcatArgument);
         }
         this.emit('.. addAll (');
         this.visit(arg);
@@ -503,7 +913,8 @@ export class FacadeConverter extends base.TranspilerBase {
       this.emit('( (');
       this.visitList(c.arguments);  // Should only be 1.
       this.emit(')');
-      this.emit('is List');
+      this.emit('is');
+      this.emit(this.getCoreName('List'));
       this.emit(')');
     },
     'RegExp.test': (c: ts.CallExpression, context: ts.Expression) => {
@@ -517,7 +928,8 @@ export class FacadeConverter extends base.TranspilerBase {
     },
     'String.substr': (c: ts.CallExpression, context: ts.Expression) => {
       this.reportError(
-          c, 'substr is unsupported, use substring (but beware of the different semantics!)');
+          c, 'substr is unsupported, use substring (but beware of the different semantics!)',
+          ErrorCode.Substr);
       this.visit(context);
       this.emitMethodCall('substr', c.arguments);
     },
@@ -565,7 +977,9 @@ export class FacadeConverter extends base.TranspilerBase {
           cb = <ts.FunctionExpression>(c.arguments[0]);
           params = cb.parameters;
           if (params.length !== 2) {
-            this.reportError(c, 'Map.forEach callback requires exactly two arguments');
+            this.reportError(
+                c, 'Map.forEach callback requires exactly two arguments',
+                ErrorCode.MapForEachCallback);
             return;
           }
           this.visit(context);
@@ -582,7 +996,9 @@ export class FacadeConverter extends base.TranspilerBase {
           cb = <ts.ArrowFunction>(c.arguments[0]);
           params = cb.parameters;
           if (params.length !== 2) {
-            this.reportError(c, 'Map.forEach callback requires exactly two arguments');
+            this.reportError(
+                c, 'Map.forEach callback requires exactly two arguments',
+                ErrorCode.MapForEachCallback);
             return;
           }
           this.visit(context);
@@ -631,7 +1047,9 @@ export class FacadeConverter extends base.TranspilerBase {
         // The actual Map constructor is special cased for const calls.
         if (!this.isInsideConstExpr(c)) return true;
         if (c.arguments.length) {
-          this.reportError(c, 'Arguments on a Map constructor in a const are unsupported');
+          this.reportError(
+              c, 'Arguments on a Map constructor in a const are unsupported',
+              ErrorCode.ConstMapArguments);
         }
         if (c.typeArguments) {
           this.emit('<');
@@ -647,7 +1065,8 @@ export class FacadeConverter extends base.TranspilerBase {
         // The special function forwardRef translates to an unwrapped value in Dart.
         const callback = <ts.FunctionExpression>c.arguments[0];
         if (callback.kind !== ts.SyntaxKind.ArrowFunction) {
-          this.reportError(c, 'forwardRef takes only arrow functions');
+          this.reportError(
+              c, 'forwardRef takes only arrow functions', ErrorCode.ForwardRefArgument);
           return;
         }
         this.visit(callback.body);
@@ -2,6 +2,7 @@ import * as ts from 'typescript';
 import * as base from './base';
 import {Transpiler} from './main';
 import {FacadeConverter} from './facade_converter';
+import {ErrorCode} from './diagnostic';
 
 export default class LiteralTranspiler extends base.TranspilerBase {
   constructor(tr: Transpiler, private fc: FacadeConverter) { super(tr); }
@@ -107,7 +108,8 @@ export default class LiteralTranspiler extends base.TranspilerBase {
         this.emitNoSpace('\'');
         if (flags.indexOf('g') === -1) {
           // Dart RegExps are always global, so JS regexps must use 'g' so that semantics match.
-          this.reportError(node, 'Regular Expressions must use the //g flag');
+          this.reportError(
+              node, 'Regular Expressions must use the //g flag', ErrorCode.RegExpWithoutGlobalFlag);
         }
         if (flags.indexOf('m') !== -1) {
           this.emit(', multiLine: true');
@@ -152,7 +154,8 @@ export default class LiteralTranspiler extends base.TranspilerBase {
     if (ta.type.kind !== ts.SyntaxKind.TypeLiteral) return;
     let it = this.maybeDestructureIndexType(<ts.TypeLiteralNode>ta.type);
     if (!it) {
-      this.reportError(node, 'expected {[k]: v} type on object literal');
+      this.reportError(
+          node, 'expected {[k]: v} type on object literal', ErrorCode.ObjectLiteralType);
       return;
     }
     this.emit('<');
@@ -1,7 +1,8 @@
 require('source-map-support').install();
-import {SourceMapGenerator} from 'source-map';
+import {SourceMapConsumer, SourceMapGenerator} from 'source-map';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as readline from 'readline';
 import * as ts from 'typescript';
 
 import {TranspilerBase} from './base';
@@ -10,12 +11,34 @@ import CallTranspiler from './call';
 import DeclarationTranspiler from './declaration';
 import ExpressionTranspiler from './expression';
 import ModuleTranspiler from './module';
+import {ImportRewriteRule} from './module';
 import StatementTranspiler from './statement';
 import TypeTranspiler from './type';
 import LiteralTranspiler from './literal';
 import {FacadeConverter} from './facade_converter';
+import {FacadeConfig, loadFacadeConfig} from './facade_config';
+import {Diagnostic, ErrorCode, Severity} from './diagnostic';
+import {compareDiagnostics, createError, formatDiagnostic, formatErrorCode} from './diagnostic';
+import {getDefaultSeverity, isSuppressed} from './diagnostic';
+import {AuditReport, createAuditReport, formatAuditReport} from './audit';
+import {Plugin, createPluginTranspiler} from './plugin';
+import {DartErrorMapper, SOURCE_MAPPING_URL, readSourceMap} from './source_maps';
+import {Manifest, cleanStaleOutputs, getVersion, hashInputs} from './manifest';
+import {readManifest, writeManifest} from './manifest';
+import {WorkerRequest, partitionFiles, runWorkers} from './parallel';
+import {Dependencies, collectDependencies, updatePubspec} from './pubspec';
 import * as dartStyle from 'dart-style';
 
+export {Diagnostic, ErrorCode, Severity, TS2DartError} from './diagnostic';
+export {AuditReport, FileAudit, formatAuditReport} from './audit';
+export {TranspilerBase} from './base';
+export {FacadeConfig, FacadeModuleConfig} from './facade_config';
+export {Plugin, TranspilerClass, VisitorHook} from './plugin';
+export {DartErrorMapper} from './source_maps';
+export {VinylFile, createStream} from './stream';
+export {Dependencies} from './pubspec';
+export {ImportRewriteRule} from './module';
+
 export interface TranspilerOptions {
   /**
    * Fail on the first error, do not collect multiple. Allows easier debugging as stack traces lead
@@ -24,8 +47,13 @@ export interface TranspilerOptions {
   failFast?: boolean;
   /** Whether to generate 'library a.b.c;' names from relative file paths. */
   generateLibraryName?: boolean;
-  /** Whether to generate source maps. */
+  /** Whether to generate source maps, inlined into the output files. */
   generateSourceMap?: boolean;
+  /**
+   * Write source maps to `.dart.map` files next to the output files instead of inlining them.
+   * Implies `generateSourceMap`.
+   */
+  externalSourceMap?: boolean;
   /**
    * A base path to relativize absolute file paths against. This is useful for library name
    * generation (see above) and nicer file names in error messages.
@@ -44,6 +72,115 @@ export interface TranspilerOptions {
    * Sets a root path to look for typings used by the facade converter.
    */
   typingsRoot?: string;
+  /**
+   * Path to a tsconfig.json file, or a directory containing one. The project's files are translated
+   * in addition to any explicitly given files, and its compiler options (e.g. `paths`, `baseUrl`,
+   * `typeRoots`, `lib`) are used, except where ts2dart requires specific settings.
+   */
+  project?: string;
+  /**
+   * Overrides the severity of problems by their code, e.g. `{'TS2D1402': 'error'}`, or turns them
+   * `'off'`. Most problems are errors by default. Problems with usable but possibly differently
+   * behaving translations are warnings: `substr` calls (TS2D1402), RegExps without the `g` flag
+   * (TS2D1005) and `protected` declarations (TS2D1103). Set these to `'error'` to fail on them.
+   * Individual problems can also be suppressed in the source using
+   * `// ts2dart-disable-next-line TS2D1402` comments. Unsupported code whose problem is not an
+   * error is replaced by a placeholder, as in `lenient` mode.
+   */
+  severities?: {[code: string]: Severity | 'off'};
+  /**
+   * Do not fail on errors, but emit placeholders for untranslatable code, i.e. block comments
+   * reading `TS2DART UNSUPPORTED: <kind> <source>`, followed by `throw new UnimplementedError();`
+   * for statements, and by `(throw new UnimplementedError())` for expressions. All files are
+   * translated and written, and problems are available from `getDiagnostics()`.
+   */
+  lenient?: boolean;
+  /**
+   * Project-specific translations, consulted in order before the built-in ones. Either
+   * `TranspilerBase` subclasses, or objects with a `visitNode(node, context)` method.
+   */
+  plugins?: Plugin[];
+  /**
+   * Additional translations of builtins (see `translateBuiltins`) for arbitrary typings modules.
+   * Either a `FacadeConfig`, or the path of a JSON or YAML file containing one.
+   */
+  facadeConfig?: string|FacadeConfig;
+  /**
+   * Keep a manifest of inputs and outputs in `.ts2dart-manifest.json` in the destination directory.
+   * Inputs that did not change since the last run are not translated again, outputs are only
+   * written if their content changed, and outputs of deleted inputs are removed. Files are also
+   * translated again when a module they (transitively) import changes, and with
+   * `translateBuiltins`, which depends on declarations anywhere in the program, when any file in
+   * the program changes. With `plugins`, all files are always translated again.
+   */
+  manifest?: boolean;
+  /**
+   * Path of a pubspec.yaml file to add the packages imported by translated files to, as
+   * `dependencies`. The file is created if it does not exist. Dependencies are only added, never
+   * removed. See also `getDependencies()`.
+   */
+  pubspec?: string;
+  /**
+   * Version constraints for dependencies added to `pubspec`, keyed by package name, e.g.
+   * `{'angular2': '^2.0.0'}`. Defaults to `any`.
+   */
+  packageVersions?: {[packageName: string]: string};
+  /**
+   * Rules to translate module names in imports and exports to Dart URIs, taking precedence over the
+   * built-in ones. Either a map from module names to URIs, e.g.
+   * `{'rxjs/Observable': 'dart:async'}`, or a list of rules, of which the first with a matching
+   * `pattern` applies, e.g. `{pattern: '^@scope/(.*)$', replacement: 'package:$1.dart'}`.
+   */
+  importRewrites?: {[moduleName: string]: string}|ImportRewriteRule[];
+  /**
+   * Make top-level declarations of modules that are not exported library-private in Dart, by
+   * renaming them (and all references) to `_name`. Files with local export lists, `export {a, b};`,
+   * are always translated like this.
+   */
+  privatizeNonExported?: boolean;
+  /**
+   * Report declarations named like Dart reserved words, e.g. `is` or `rethrow`, instead of
+   * escaping them, and all references, with a trailing `$`, e.g. `is$`.
+   */
+  reportReservedWords?: boolean;
+}
+
+/** Stops watching for file changes. */
+export interface Watcher { close(): void; }
+
+/**
+ * Called after each cycle in watch mode.
+ * @param error The error reported during the cycle, or null.
+ * @param outputFiles The output files written during the cycle.
+ */
+export type WatchCallback = (error: Error, outputFiles: string[]) => void;
+
+/** Polling interval for file changes in watch mode. */
+const WATCH_INTERVAL_MS = 250;
+/** Delay to batch up multiple changes (e.g. from a VCS checkout) into a single cycle. */
+const WATCH_DEBOUNCE_MS = 50;
+
+function reportWatchCycle(error: Error, outputFiles: string[]) {
+  if (error) {
+    console.error(error.message);
+  } else {
+    console.error('Wrote', outputFiles.length, 'file(s), watching for changes...');
+  }
+}
+
+/** The translation of a single file. */
+interface TranslatedFile {
+  code: string;
+  /** The source map in JSON format, if enabled. */
+  sourceMap?: string;
+}
+
+/** The translation of a set of in-memory sources, see `translateSources`. */
+export interface TranslationResult {
+  /** The translated files, keyed by input file name. */
+  files: {[fileName: string]: {code: string, sourceMap?: string}};
+  /** All errors and warnings. */
+  diagnostics: Diagnostic[];
 }
 
 export const COMPILER_OPTIONS: ts.CompilerOptions = {
@@ -60,23 +197,43 @@ export class Transpiler {
   // Comments attach to all following AST nodes before the next 'physical' token. Track the earliest
   // offset to avoid printing comments multiple times.
   private lastCommentIdx: number = -1;
-  private errors: string[] = [];
+  private diagnostics: Diagnostic[] = [];
 
   private transpilers: TranspilerBase[];
   private fc: FacadeConverter;
+  /** The loaded `facadeConfig` option. */
+  private facadeConfig: FacadeConfig;
+  private projectOptions: ts.CompilerOptions = {};
+  /** The `paths` mappings of the project's compiler options, see `isPathMapped`. */
+  private pathMappings: {[pattern: string]: string[]} = {};
+  private program: ts.Program;
+  private importedUris: {[uri: string]: boolean} = {};
+  /** The Dart URIs imported by the current output file. */
+  private fileImports: {[uri: string]: boolean} = {};
+  private moduleResolver: (moduleNames: string[], containingFile: string) => ts.ResolvedModule[];
 
   constructor(private options: TranspilerOptions = {}) {
     // TODO: Remove the angular2 default when angular uses typingsRoot.
-    this.fc = new FacadeConverter(this, options.typingsRoot || 'angular2/typings/');
-    this.transpilers = [
+    this.fc = new FacadeConverter(
+        this, options.typingsRoot || 'angular2/typings/', options.reportReservedWords);
+    if (typeof options.facadeConfig === 'string') {
+      this.facadeConfig = loadFacadeConfig(<string>options.facadeConfig);
+    } else if (options.facadeConfig) {
+      this.facadeConfig = <FacadeConfig>options.facadeConfig;
+    }
+    if (this.facadeConfig) this.fc.addConfig(this.facadeConfig);
+    this.transpilers = (options.plugins || []).map((p) => createPluginTranspiler(this, p));
+    this.transpilers = this.transpilers.concat([
       new CallTranspiler(this, this.fc),  // Has to come before StatementTranspiler!
       new DeclarationTranspiler(this, this.fc, options.enforceUnderscoreConventions),
       new ExpressionTranspiler(this, this.fc),
       new LiteralTranspiler(this, this.fc),
-      new ModuleTranspiler(this, this.fc, options.generateLibraryName),
+      new ModuleTranspiler(
+          this, this.fc, options.generateLibraryName, options.importRewrites,
+          options.privatizeNonExported),
       new StatementTranspiler(this),
       new TypeTranspiler(this, this.fc),
-    ];
+    ]);
   }
 
   /**
@@ -85,84 +242,584 @@ export class Transpiler {
    * @param destination Location to write files to. Creates files next to their sources if absent.
    */
   transpile(fileNames: string[], destination?: string): void {
+    fileNames = this.normalizeFileNames(fileNames, destination);
+    let destinationRoot = destination || this.options.basePath || '';
+    let program = ts.createProgram(fileNames, this.getCompilerOptions(), this.createCompilerHost());
+    let manifest = this.options.manifest ? readManifest(destinationRoot) : null;
+    if (manifest) cleanStaleOutputs(manifest, this.options.basePath || '', destinationRoot);
+    this.writeFiles(program, fileNames, destinationRoot, null, manifest);
+    try {
+      this.checkForErrors(program);
+      this.updatePubspec();
+    } finally {
+      if (manifest) this.saveManifest(manifest, destinationRoot);
+    }
+  }
+
+  /**
+   * Transpiles the given files like `transpile`, but partitions them among `jobs` worker processes.
+   * Each worker builds and type checks the whole program, but only translates, formats and writes
+   * the files in its partition. Written files and diagnostics are merged in a deterministic order,
+   * independent of the workers' timing. Plugins cannot be passed to worker processes, so they are
+   * not supported.
+   * @param onDone Called with the error (if any) and the list of output files written.
+   */
+  transpileInWorkers(
+      fileNames: string[], destination: string, jobs: number,
+      onDone: (error: Error, outputFiles: string[]) => void) {
+    if (this.options.plugins && this.options.plugins.length) {
+      onDone(new Error('Plugins are not supported when transpiling in worker processes'), []);
+      return;
+    }
+    let inputs: string[];
+    try {
+      inputs = this.normalizeFileNames(fileNames, destination);
+    } catch (e) {
+      onDone(e, []);
+      return;
+    }
+    let destinationRoot = destination || this.options.basePath || '';
+    let manifest = this.options.manifest ? readManifest(destinationRoot) : null;
+    if (manifest) cleanStaleOutputs(manifest, this.options.basePath || '', destinationRoot);
+    let partitions = partitionFiles(inputs.filter((f) => !f.match(/\.d\.ts$/)), jobs);
+    let requests: WorkerRequest[] = partitions.map(
+        (partition) => ({options: this.options, fileNames, destination, partition, manifest}));
+    runWorkers(requests, (results) => {
+      let failed = results.filter((r) => !!r.error)[0];
+      if (failed) {
+        onDone(new Error(failed.error), []);
+        return;
+      }
+      let written: string[] = [];
+      let seen: {[diagnostic: string]: boolean} = {};
+      this.diagnostics = [];
+      results.forEach((result, i) => {
+        written = written.concat(result.written);
+        result.importedUris.forEach((uri) => this.recordImport(uri));
+        // Diagnostics of the program, e.g. TypeScript errors, are reported by all workers.
+        result.diagnostics.forEach((d) => {
+          let key = JSON.stringify(d);
+          if (!seen[key]) this.diagnostics.push(d);
+          seen[key] = true;
+        });
+        if (!manifest) return;
+        partitions[i].forEach((f) => {
+          let input = this.getRelativeFileName(path.resolve(f));
+          if (result.manifest.files.hasOwnProperty(input)) {
+            manifest.files[input] = result.manifest.files[input];
+          }
+        });
+      });
+      this.diagnostics.sort(compareDiagnostics);
+      written.sort();
+      let hasErrors = this.diagnostics.some((d) => d.severity === 'error');
+      try {
+        if (manifest) this.saveManifest(manifest, destinationRoot);
+        if (!hasErrors || this.options.lenient) this.updatePubspec();
+      } catch (e) {
+        onDone(e, written);
+        return;
+      }
+      onDone(hasErrors && !this.options.lenient ? createError(this.diagnostics) : null, written);
+    });
+  }
+
+  /**
+   * Transpiles the files in `partition`, as part of transpiling all `fileNames` in a worker process
+   * (see `transpileInWorkers`).
+   * @return The paths of the written output files.
+   */
+  transpilePartition(
+      fileNames: string[], destination: string, partition: string[],
+      manifest?: Manifest): string[] {
+    fileNames = this.normalizeFileNames(fileNames, destination);
+    let destinationRoot = destination || this.options.basePath || '';
+    let program = ts.createProgram(fileNames, this.getCompilerOptions(), this.createCompilerHost());
+    let only: {[fileName: string]: boolean} = {};
+    partition.forEach((f) => only[f] = true);
+    let written = this.writeFiles(program, fileNames, destinationRoot, only, manifest);
+    this.checkForErrors(program);
+    return written;
+  }
+
+  private updatePubspec() {
+    if (!this.options.pubspec) return;
+    updatePubspec(
+        this.options.pubspec, this.getDependencies().packages, this.options.packageVersions);
+  }
+
+  private saveManifest(manifest: Manifest, destinationRoot: string) {
+    // Translate files with errors again in the next run, to report the errors again.
+    this.diagnostics.filter((d) => d.severity === 'error' && !!d.file)
+        .forEach((d) => delete manifest.files[d.file]);
+    if (destinationRoot) mkdirP(destinationRoot);
+    writeManifest(destinationRoot, manifest);
+  }
+
+  /**
+   * Transpiles the given files to Dart like `transpile`, then keeps watching all files in the
+   * program for changes. Each change re-translates the changed files and, if builtins are
+   * translated using the type checker, the files that (transitively) import them.
+   * @param fileNames The input files.
+   * @param destination Location to write files to. Creates files next to their sources if absent.
+   * @param onCycle Called after every translation cycle with the error (if any) and the list of
+   *     output files written.
+   */
+  watch(fileNames: string[], destination?: string, onCycle: WatchCallback = reportWatchCycle):
+      Watcher {
+    fileNames = this.normalizeFileNames(fileNames, destination);
+    let destinationRoot = destination || this.options.basePath || '';
+    // Cache source files across cycles so that the old program's structure can be reused.
+    let sourceFileCache: ts.Map<ts.SourceFile> = {};
+    let host = this.createCompilerHost(sourceFileCache);
+    let program: ts.Program;
+
+    let watched: {[fileName: string]: boolean} = {};
+    let pending: {[fileName: string]: boolean} = {};
+    let timer: NodeJS.Timer;
+
+    let runCycle = () => {
+      let changed = Object.keys(pending);
+      pending = {};
+      let written: string[] = [];
+      let error: Error = null;
+      try {
+        changed.forEach((f) => delete sourceFileCache[f]);
+        let isFirstCycle = !program;
+        program = ts.createProgram(fileNames, this.getCompilerOptions(), host, program);
+        let affected = isFirstCycle ? null : this.getAffectedFiles(program, changed);
+        written = this.writeFiles(program, fileNames, destinationRoot, affected);
+        this.checkForErrors(program);
+        this.updatePubspec();
+      } catch (e) {
+        error = e;
+      }
+      if (program) {
+        let libFileName = host.getDefaultLibFileName(this.getCompilerOptions());
+        program.getSourceFiles()
+            .map((f) => f.fileName)
+            .filter((f) => f !== libFileName && !watched[f])
+            .forEach((f) => {
+              watched[f] = true;
+              fs.watchFile(f, {interval: WATCH_INTERVAL_MS}, (curr, prev) => {
+                if (curr.mtime.getTime() === prev.mtime.getTime()) return;
+                pending[f] = true;
+                clearTimeout(timer);
+                timer = setTimeout(runCycle, WATCH_DEBOUNCE_MS);
+              });
+            });
+      }
+      onCycle(error, written);
+    };
+
+    runCycle();
+    return {
+      close: () => {
+        clearTimeout(timer);
+        Object.keys(watched).forEach((f) => fs.unwatchFile(f));
+        watched = {};
+      },
+    };
+  }
+
+  /**
+   * Translates the given files without writing any output, and reports how much of them could be
+   * translated. Translation does not stop at errors, as in lenient mode.
+   * @param fileNames The input files.
+   */
+  audit(fileNames: string[]): AuditReport {
+    // Nothing is written, so there is no destination.
+    fileNames = this.normalizeFileNames(fileNames, null);
+    let program = ts.createProgram(fileNames, this.getCompilerOptions(), this.createCompilerHost());
+    this.setProgram(program);
+    let fileSet: {[s: string]: boolean} = {};
+    fileNames.forEach((f) => fileSet[f] = true);
+    let sourceFiles = program.getSourceFiles().filter(
+        (f) => fileSet[f.fileName] && !f.fileName.match(/\.d\.ts$/));
+
+    let {lenient, failFast} = this.options;
+    this.options.lenient = true;
+    this.options.failFast = false;
+    this.diagnostics = [];
+    try {
+      sourceFiles.forEach((f) => {
+        try {
+          this.translate(f);
+        } catch (e) {
+          // Internal errors abort translation of the current file only. Failed assertions have
+          // already been reported.
+          let last = this.diagnostics[this.diagnostics.length - 1];
+          if (!last || last.message !== e.message) {
+            this.reportError(f, e.message, ErrorCode.Internal);
+          }
+        }
+      });
+      this.checkForErrors(program);
+    } finally {
+      this.options.lenient = lenient;
+      this.options.failFast = failFast;
+    }
+    return createAuditReport(
+        sourceFiles.map((f) => this.getRelativeFileName(path.resolve(f.fileName))),
+        this.diagnostics);
+  }
+
+  translateProgram(program: ts.Program): {[path: string]: string} {
+    this.setProgram(program);
+    let paths: {[path: string]: string} = {};
+    this.diagnostics = [];
+    program.getSourceFiles()
+        .filter(
+            (sourceFile: ts.SourceFile) =>
+                (!sourceFile.fileName.match(/\.d\.ts$/) && !!sourceFile.fileName.match(/\.[jt]s$/)))
+        .forEach((f) => paths[f.fileName] = this.translate(f).code);
+    this.checkForErrors(program);
+    return paths;
+  }
+
+  /**
+   * Translates in-memory sources, e.g. in build tools or editors. Unlike `translateProgram`, this
+   * does not fail on errors, but returns them along with the translated files.
+   * @param sources The file contents, keyed by file name. The default library is read from disk.
+   * @param readFromDisk Whether to read other files that are not in `sources`, e.g. typings, from
+   *     disk.
+   */
+  translateSources(sources: {[fileName: string]: string}, readFromDisk = false): TranslationResult {
+    this.normalizeBasePath();
+    let fileNames = Object.keys(sources).map((f) => this.normalizeSlashes(f));
+    let normalizedSources: ts.Map<string> = {};
+    Object.keys(sources).forEach((f) => normalizedSources[this.normalizeSlashes(f)] = sources[f]);
+    let program = ts.createProgram(
+        fileNames, this.getCompilerOptions(),
+        this.createCompilerHost(undefined, normalizedSources, readFromDisk));
+    this.setProgram(program);
+    let result: TranslationResult = {files: {}, diagnostics: []};
+    this.diagnostics = [];
+    program.getSourceFiles()
+        .filter(
+            (f) => normalizedSources.hasOwnProperty(f.fileName) && !f.fileName.match(/\.d\.ts$/))
+        .forEach((f) => result.files[f.fileName] = this.translate(f));
+    try {
+      this.checkForErrors(program);
+    } catch (e) {
+      if (e.name !== 'TS2DartError') throw e;
+    }
+    result.diagnostics = this.diagnostics;
+    return result;
+  }
+
+  private setProgram(program: ts.Program) {
+    this.program = program;
+    this.importedUris = {};
+    // All files that imports resolve to are part of the program, so resolving modules against the
+    // program's files gives the same results as the compiler host, without file system access.
+    let host: ts.ModuleResolutionHost = {
+      fileExists: (fileName) => !!program.getSourceFile(fileName),
+      readFile: (fileName) => program.getSourceFile(fileName).text,
+    };
+    this.moduleResolver = getModuleResolver(host, this.getCompilerOptions());
+    this.fc.findNamespaceMembers(program.getSourceFiles());
+    if (this.options.translateBuiltins) {
+      this.fc.setTypeChecker(program.getTypeChecker());
+    }
+  }
+
+  /** Records that the current output file imports `uri`, see `getDependencies()`. */
+  recordImport(uri: string) {
+    this.importedUris[uri] = true;
+    this.fileImports[uri] = true;
+  }
+
+  /** Returns the Dart URIs imported by the files translated in the last program. */
+  getImportedUris(): string[] { return Object.keys(this.importedUris).sort(); }
+
+  /**
+   * Returns the packages and Dart libraries imported by the files translated in the last program.
+   */
+  getDependencies(): Dependencies { return collectDependencies(this.getImportedUris()); }
+
+  /**
+   * Returns the file that `moduleName`, imported from the current file, resolves to, e.g. through
+   * `index.ts` files or `paths` mappings. Returns null if it does not resolve to a file that is
+   * translated along with the current file, i.e. for typings, external libraries, and files outside
+   * the base path, or without a base path, files that are not being translated. Non-relative module
+   * names are package imports unless they match a `paths`
+   * mapping.
+   */
+  resolveModule(moduleName: string): string {
+    if (!moduleName.match(/^\.\.?\//) && !this.isPathMapped(moduleName)) return null;
+    let resolved = this.moduleResolver([moduleName], this.currentFile.fileName)[0];
+    if (!resolved || resolved.isExternalLibraryImport) return null;
+    let fileName = this.normalizeSlashes(path.resolve(resolved.resolvedFileName));
+    if (fileName.match(/\.d\.ts$/)) return null;
+    if (this.options.basePath) {
+      if (!isWithin(this.options.basePath, fileName)) return null;
+    } else if (!this.program.getRootFileNames().some(
+                   (f) => this.normalizeSlashes(path.resolve(f)) === fileName)) {
+      return null;
+    }
+    return fileName;
+  }
+
+  private isPathMapped(moduleName: string): boolean {
+    let paths = this.pathMappings;
+    return Object.keys(paths).some((pattern) => {
+      let [prefix, suffix] = pattern.split('*');
+      if (suffix === undefined) return moduleName === pattern;
+      return moduleName.length >= prefix.length + suffix.length &&
+          moduleName.indexOf(prefix) === 0 &&
+          moduleName.lastIndexOf(suffix) === moduleName.length - suffix.length;
+    });
+  }
+
+  /** Returns the type checker of the program being translated. */
+  getTypeChecker(): ts.TypeChecker { return this.program.getTypeChecker(); }
+
+  private normalizeBasePath() {
     if (this.options.basePath) {
       this.options.basePath = this.normalizeSlashes(path.resolve(this.options.basePath));
     }
-    fileNames = fileNames.map((f) => this.normalizeSlashes(f));
-    let host = this.createCompilerHost();
+  }
+
+  private normalizeFileNames(fileNames: string[], destination: string): string[] {
+    this.normalizeBasePath();
     if (this.options.basePath && destination === undefined) {
       throw new Error(
           'Must have a destination path when a basePath is specified ' + this.options.basePath);
     }
-    let destinationRoot = destination || this.options.basePath || '';
-    let program = ts.createProgram(fileNames, this.getCompilerOptions(), host);
-    if (this.options.translateBuiltins) {
-      this.fc.setTypeChecker(program.getTypeChecker());
+    fileNames = fileNames.concat(this.loadProject());
+    return fileNames.map((f) => this.normalizeSlashes(f));
+  }
+
+  /**
+   * Reads the tsconfig.json given in `options.project`, if any, keeping its compiler options for
+   * `getCompilerOptions`.
+   * @return The project's input files.
+   */
+  private loadProject(): string[] {
+    this.projectOptions = {};
+    this.pathMappings = {};
+    if (!this.options.project) return [];
+    let configFile = this.options.project;
+    if (fs.existsSync(configFile) && fs.statSync(configFile).isDirectory()) {
+      configFile = path.join(configFile, 'tsconfig.json');
     }
+    let {config, error} = ts.readConfigFile(configFile, (f) => fs.readFileSync(f, 'utf-8'));
+    if (error) this.throwErrors([this.convertDiagnostic(error)]);
+    let parsed = ts.parseJsonConfigFileContent(
+        config, ts.sys, path.dirname(path.resolve(configFile)), undefined, configFile);
+    if (parsed.errors.length) this.throwErrors(parsed.errors.map((d) => this.convertDiagnostic(d)));
+    this.projectOptions = parsed.options;
+    this.pathMappings = (config.compilerOptions || {}).paths || {};
+    return parsed.fileNames;
+  }
+
+  /**
+   * Translates and writes the files in `program` that were explicitly passed in as `fileNames`.
+   * @param only If present, restricts output to the files in this set.
+   * @param manifest If present, skips files whose inputs did not change, only writes changed
+   *     outputs, and records the outputs.
+   * @return The paths of the written output files.
+   */
+  private writeFiles(
+      program: ts.Program, fileNames: string[], destinationRoot: string,
+      only?: {[fileName: string]: boolean}, manifest?: Manifest): string[] {
+    this.setProgram(program);
 
     // Only write files that were explicitly passed in.
     let fileSet: {[s: string]: boolean} = {};
     fileNames.forEach((f) => fileSet[f] = true);
 
-    this.errors = [];
+    // Plugins are code, which cannot be hashed, so their files are always translated again.
+    let canSkip = !this.options.plugins || this.options.plugins.length === 0;
+    // Translations depend on the modules a file imports, e.g. through default imports and renames.
+    // With `translateBuiltins`, they depend on declarations anywhere in the program.
+    let programHash = '';
+    let imports: {[fileName: string]: string[]} = {};
+    if (manifest && this.options.translateBuiltins) {
+      programHash = hashInputs(program.getSourceFiles().map((f) => f.fileName + '\n' + f.text));
+    } else if (manifest) {
+      imports = this.getImports(program);
+    }
+    let hashDependencies = (fileName: string) =>
+        programHash || hashInputs(getReachable([fileName], imports)
+                                      .sort()
+                                      .map((f) => f + '\n' + program.getSourceFile(f).text));
+    let write = (fileName: string, contents: string) => {
+      if (manifest && fs.existsSync(fileName) && fs.readFileSync(fileName, 'utf-8') === contents) {
+        return false;
+      }
+      fs.writeFileSync(fileName, contents);
+      return true;
+    };
+
+    this.diagnostics = [];
+    let written: string[] = [];
     program.getSourceFiles()
         .filter((sourceFile) => fileSet[sourceFile.fileName])
+        .filter((sourceFile) => !only || only[sourceFile.fileName])
         // Do not generate output for .d.ts files.
         .filter((sourceFile: ts.SourceFile) => !sourceFile.fileName.match(/\.d\.ts$/))
         .forEach((f: ts.SourceFile) => {
-          let dartCode = this.translate(f);
           let outputFile = this.getOutputPath(path.resolve(f.fileName), destinationRoot);
+          let input = this.getRelativeFileName(path.resolve(f.fileName));
+          let hash: string;
+          if (manifest) {
+            hash = hashInputs([
+              getVersion(), ts.version, this.getOptionsKey(), f.text, hashDependencies(f.fileName)
+            ]);
+            let entry = manifest.files[input];
+            if (canSkip && entry && entry.hash === hash && fs.existsSync(outputFile)) {
+              // Skipped files still contribute their imports to `getDependencies()`.
+              (entry.imports || []).forEach((uri) => this.recordImport(uri));
+              return;
+            }
+          }
+          let translated = this.translate(f, outputFile);
           mkdirP(path.dirname(outputFile));
-          fs.writeFileSync(outputFile, dartCode);
+          if (write(outputFile, translated.code)) written.push(outputFile);
+          if (this.options.externalSourceMap) write(outputFile + '.map', translated.sourceMap);
+          if (manifest) {
+            let output = this.normalizeSlashes(path.relative(destinationRoot, outputFile));
+            manifest.files[input] = {output, hash, imports: Object.keys(this.fileImports).sort()};
+          }
         });
-    this.checkForErrors(program);
+    return written;
   }
 
-  translateProgram(program: ts.Program): {[path: string]: string} {
-    if (this.options.translateBuiltins) {
-      this.fc.setTypeChecker(program.getTypeChecker());
+  /**
+   * Returns the options that affect translations, for hashing in the manifest. A facade config file
+   * is represented by its contents. Plugins cannot be hashed, see `writeFiles`.
+   */
+  private getOptionsKey(): string {
+    let o = this.options;
+    let rewrites = o.importRewrites;
+    // JSON drops RegExps, so rules are keyed by their patterns' sources.
+    if (Array.isArray(rewrites)) {
+      rewrites = (<ImportRewriteRule[]>rewrites)
+                     .map((r) => ({pattern: String(r.pattern), replacement: r.replacement}));
     }
-    let paths: {[path: string]: string} = {};
-    this.errors = [];
-    program.getSourceFiles()
-        .filter(
-            (sourceFile: ts.SourceFile) =>
-                (!sourceFile.fileName.match(/\.d\.ts$/) && !!sourceFile.fileName.match(/\.[jt]s$/)))
-        .forEach((f) => paths[f.fileName] = this.translate(f));
-    this.checkForErrors(program);
-    return paths;
+    let options: TranspilerOptions = {
+      generateLibraryName: o.generateLibraryName,
+      generateSourceMap: o.generateSourceMap,
+      externalSourceMap: o.externalSourceMap,
+      basePath: o.basePath,
+      translateBuiltins: o.translateBuiltins,
+      enforceUnderscoreConventions: o.enforceUnderscoreConventions,
+      typingsRoot: o.typingsRoot,
+      project: o.project,
+      severities: o.severities,
+      lenient: o.lenient,
+      facadeConfig: this.facadeConfig,
+      importRewrites: rewrites,
+      privatizeNonExported: o.privatizeNonExported,
+      reportReservedWords: o.reportReservedWords,
+    };
+    return JSON.stringify(options);
+  }
+
+  /**
+   * Returns the set of files whose translation might change after `changed` were modified, i.e. the
+   * changed files and all files (transitively) importing them, as translations depend on the
+   * declarations of imported modules.
+   */
+  private getAffectedFiles(program: ts.Program, changed: string[]): {[fileName: string]: boolean} {
+    let importers: {[fileName: string]: string[]} = {};
+    let imports = this.getImports(program);
+    Object.keys(imports).forEach((fileName) => imports[fileName].forEach((imported) => {
+      (importers[imported] = importers[imported] || []).push(fileName);
+    }));
+    let affected: {[fileName: string]: boolean} = {};
+    changed.concat(getReachable(changed, importers)).forEach((f) => affected[f] = true);
+    return affected;
+  }
+
+  /**
+   * Returns the files each file in `program` imports or re-exports from, keyed by file name. Only
+   * imports that resolve to source files of the program are included.
+   */
+  private getImports(program: ts.Program): {[fileName: string]: string[]} {
+    let tc = program.getTypeChecker();
+    let imports: {[fileName: string]: string[]} = {};
+    program.getSourceFiles().forEach((sourceFile) => {
+      imports[sourceFile.fileName] = [];
+      sourceFile.statements.forEach((stmt) => {
+        let moduleSpecifier: ts.Expression;
+        if (stmt.kind === ts.SyntaxKind.ImportDeclaration) {
+          moduleSpecifier = (<ts.ImportDeclaration>stmt).moduleSpecifier;
+        } else if (stmt.kind === ts.SyntaxKind.ExportDeclaration) {
+          moduleSpecifier = (<ts.ExportDeclaration>stmt).moduleSpecifier;
+        } else if (stmt.kind === ts.SyntaxKind.ImportEqualsDeclaration) {
+          let moduleRef = (<ts.ImportEqualsDeclaration>stmt).moduleReference;
+          if (moduleRef.kind === ts.SyntaxKind.ExternalModuleReference) {
+            moduleSpecifier = (<ts.ExternalModuleReference>moduleRef).expression;
+          }
+        }
+        if (!moduleSpecifier) return;
+        let symbol = tc.getSymbolAtLocation(moduleSpecifier);
+        let decl = symbol && symbol.valueDeclaration;
+        if (!decl || decl.kind !== ts.SyntaxKind.SourceFile) return;
+        imports[sourceFile.fileName].push((<ts.SourceFile>decl).fileName);
+      });
+    });
+    return imports;
   }
 
   private getCompilerOptions() {
     let opts: ts.CompilerOptions = {};
+    // Options ts2dart relies on take precedence over the project's options.
+    for (let k of Object.keys(this.projectOptions)) opts[k] = this.projectOptions[k];
     for (let k of Object.keys(COMPILER_OPTIONS)) opts[k] = COMPILER_OPTIONS[k];
-    opts.rootDir = this.options.basePath;
+    if (this.options.basePath) opts.rootDir = this.options.basePath;
     return opts;
   }
 
-  private createCompilerHost(): ts.CompilerHost {
+  /**
+   * Creates a compiler host reading from the file system, or from memory.
+   * @param cache Optional cache of parsed source files, keyed by file name.
+   * @param sources Optional file contents, keyed by file name. If present, only library files are
+   *     read from the file system, unless `readFromDisk` is set.
+   */
+  private createCompilerHost(
+      cache?: ts.Map<ts.SourceFile>, sources?: ts.Map<string>,
+      readFromDisk = false): ts.CompilerHost {
     let defaultLibFileName = ts.getDefaultLibFileName(COMPILER_OPTIONS);
     defaultLibFileName = this.normalizeSlashes(defaultLibFileName);
+    let libDir = path.dirname(ts.getDefaultLibFilePath(COMPILER_OPTIONS));
+    let inMemory = (fileName: string) => sources && sources.hasOwnProperty(fileName);
+    let fileExists = (fileName: string) =>
+        inMemory(fileName) || ((!sources || readFromDisk) && fs.existsSync(fileName));
+    let readFile = (fileName: string) =>
+        inMemory(fileName) ? sources[fileName] : fs.readFileSync(fileName, 'utf-8');
     let compilerHost: ts.CompilerHost = {
       getSourceFile: (sourceName, languageVersion) => {
-        let sourcePath = sourceName;
+        if (cache && cache.hasOwnProperty(sourceName)) return cache[sourceName];
+        let libPath: string;
         if (sourceName === defaultLibFileName) {
-          sourcePath = ts.getDefaultLibFilePath(COMPILER_OPTIONS);
+          libPath = ts.getDefaultLibFilePath(COMPILER_OPTIONS);
+        } else if (sourceName.match(/^lib\.[\w.]+\.d\.ts$/) && !fileExists(sourceName)) {
+          // Library files selected through the `lib` compiler option live next to the default lib.
+          libPath = path.join(libDir, sourceName);
         }
-        if (!fs.existsSync(sourcePath)) return undefined;
-        let contents = fs.readFileSync(sourcePath, 'UTF-8');
-        return ts.createSourceFile(sourceName, contents, COMPILER_OPTIONS.target, true);
+        if (libPath) return getLibSourceFile(sourceName, libPath);
+        if (!fileExists(sourceName)) return undefined;
+        let sourceFile =
+            ts.createSourceFile(sourceName, readFile(sourceName), COMPILER_OPTIONS.target, true);
+        if (cache) cache[sourceName] = sourceFile;
+        return sourceFile;
       },
-      writeFile(name, text, writeByteOrderMark) { fs.writeFile(name, text); },
-      fileExists: (filename) => fs.existsSync(filename),
-      readFile: (filename) => fs.readFileSync(filename, 'utf-8'),
+      writeFile(name, text, writeByteOrderMark) {
+        if (!sources) fs.writeFile(name, text);
+      },
+      fileExists,
+      readFile,
       getDefaultLibFileName: () => defaultLibFileName,
       useCaseSensitiveFileNames: () => true,
       getCanonicalFileName: (filename) => filename,
       getCurrentDirectory: () => '',
       getNewLine: () => '\n',
     };
-    compilerHost.resolveModuleNames = getModuleResolver(compilerHost);
+    compilerHost.resolveModuleNames = getModuleResolver(compilerHost, this.getCompilerOptions());
     return compilerHost;
   }
 
@@ -173,56 +830,114 @@ export class Transpiler {
     return this.normalizeSlashes(path.join(destinationRoot, dartFile));
   }
 
-  private translate(sourceFile: ts.SourceFile): string {
+  /**
+   * @param outputFile Where the translation is written, if known. Source maps then get a
+   *     `sourceRoot` pointing from there to the base path, which their sources are relative to.
+   */
+  private translate(sourceFile: ts.SourceFile, outputFile?: string): TranslatedFile {
     this.currentFile = sourceFile;
-    this.output =
-        new Output(sourceFile, this.getRelativeFileName(), this.options.generateSourceMap);
+    this.fileImports = {};
+    let relativeFileName = this.getRelativeFileName();
+    let generateSourceMap = this.options.generateSourceMap || this.options.externalSourceMap;
+    this.output = new Output(sourceFile, relativeFileName, generateSourceMap);
     this.lastCommentIdx = -1;
     this.visit(sourceFile);
-    let result = this.output.getResult();
-    return this.formatCode(result, sourceFile);
+    let code = this.formatCode(this.output.getResult(), sourceFile);
+    if (!generateSourceMap) return {code};
+
+    let dartFileName = path.basename(this.getOutputPath(relativeFileName, ''));
+    let sourceMapGenerator = this.output.createSourceMap(code, dartFileName);
+    this.applyInputSourceMap(sourceMapGenerator, sourceFile, relativeFileName);
+    let rawSourceMap = sourceMapGenerator.toJSON();
+    if (outputFile) {
+      let base = path.resolve(this.options.basePath || '');
+      let sourceRoot = path.relative(path.dirname(path.resolve(outputFile)), base);
+      if (sourceRoot) rawSourceMap.sourceRoot = this.normalizeSlashes(sourceRoot);
+    }
+    let sourceMap = JSON.stringify(rawSourceMap);
+    let url = this.options.externalSourceMap ?
+        dartFileName + '.map' :
+        'data:application/json;base64,' + new Buffer(sourceMap).toString('base64');
+    return {code: `${code}\n//# sourceMappingURL=${url}\n`, sourceMap};
+  }
+
+  /**
+   * If `sourceFile` references a source map itself, e.g. because it was generated by a
+   * preprocessor, maps `sourceMap` through it, so that it points to the original sources.
+   */
+  private applyInputSourceMap(
+      sourceMap: SourceMapGenerator, sourceFile: ts.SourceFile, relativeFileName: string) {
+    let match = sourceFile.text.match(SOURCE_MAPPING_URL);
+    if (!match) return;
+    let url = match[1];
+    let rawSourceMap = readSourceMap(url, path.dirname(sourceFile.fileName));
+    if (!rawSourceMap) {
+      this.reportError(sourceFile, 'cannot find source map ' + url, ErrorCode.InputSourceMap);
+      return;
+    }
+    // Sources in the input map are relative to its location.
+    let mapDir = path.dirname(relativeFileName);
+    if (!url.match(/^data:/)) mapDir = path.join(mapDir, path.dirname(url));
+    let consumer: SourceMapConsumer;
+    try {
+      consumer = new SourceMapConsumer(rawSourceMap);
+    } catch (e) {
+      this.reportError(
+          sourceFile, `invalid source map ${url}: ${e.message}`, ErrorCode.InputSourceMap);
+      return;
+    }
+    sourceMap.applySourceMap(consumer, relativeFileName, this.normalizeSlashes(mapDir));
   }
 
   private formatCode(code: string, context: ts.Node) {
     let result = dartStyle.formatCode(code);
     if (result.error) {
-      this.reportError(context, result.error);
+      this.reportError(context, result.error, ErrorCode.DartFormatter);
     }
     return result.code;
   }
 
   private checkForErrors(program: ts.Program) {
-    let errors = this.errors;
+    let hasErrors = this.diagnostics.some((d) => d.severity === 'error');
 
     let diagnostics = program.getGlobalDiagnostics().concat(program.getSyntacticDiagnostics());
 
-    if ((errors.length || diagnostics.length) && this.options.translateBuiltins) {
+    if ((hasErrors || diagnostics.length) && this.options.translateBuiltins) {
       // Only report semantic diagnostics if ts2dart failed; this code is not a generic compiler, so
       // only yields TS errors if they could be the cause of ts2dart issues.
       // This greatly speeds up tests and execution.
       diagnostics = diagnostics.concat(program.getSemanticDiagnostics());
     }
 
-    let diagnosticErrs = diagnostics.map((d) => {
-      let msg = '';
-      if (d.file) {
-        let pos = d.file.getLineAndCharacterOfPosition(d.start);
-        let fn = this.getRelativeFileName(d.file.fileName);
-        msg += ` ${fn}:${pos.line + 1}:${pos.character + 1}`;
-      }
-      msg += ': ';
-      msg += ts.flattenDiagnosticMessageText(d.messageText, '\n');
-      return msg;
-    });
-    if (diagnosticErrs.length) errors = errors.concat(diagnosticErrs);
+    let diagnosticErrs = diagnostics.map((d) => this.convertDiagnostic(d));
+    if (diagnosticErrs.length) this.diagnostics = this.diagnostics.concat(diagnosticErrs);
+
+    if ((hasErrors || diagnosticErrs.length) && !this.options.lenient) {
+      this.throwErrors(this.diagnostics);
+    }
+  }
 
-    if (errors.length) {
-      let e = new Error(errors.join('\n'));
-      e.name = 'TS2DartError';
-      throw e;
+  /** Converts a TypeScript diagnostic into ts2dart's format. */
+  private convertDiagnostic(d: ts.Diagnostic): Diagnostic {
+    let diagnostic: Diagnostic = {
+      severity: 'error',
+      code: 'TS' + d.code,
+      message: ts.flattenDiagnosticMessageText(d.messageText, '\n'),
+    };
+    if (d.file) {
+      let start = d.file.getLineAndCharacterOfPosition(d.start);
+      let end = d.file.getLineAndCharacterOfPosition(d.start + d.length);
+      diagnostic.file = this.getRelativeFileName(d.file.fileName);
+      diagnostic.line = start.line + 1;
+      diagnostic.column = start.character + 1;
+      diagnostic.endLine = end.line + 1;
+      diagnostic.endColumn = end.character + 1;
     }
+    return diagnostic;
   }
 
+  private throwErrors(diagnostics: Diagnostic[]) { throw createError(diagnostics); }
+
   /**
    * Returns `filePath`, relativized to the program's `basePath`.
    * @param filePath Optional path to relativize, defaults to the current file's path.
@@ -234,7 +949,7 @@ export class Transpiler {
       return filePath;  // already relative.
     }
     let base = this.options.basePath || '';
-    if (filePath.indexOf(base) !== 0 && !filePath.match(/\.d\.ts$/)) {
+    if (base && !isWithin(base, filePath) && !filePath.match(/\.d\.ts$/)) {
       throw new Error(`Files must be located under base, got ${filePath} vs ${base}`);
     }
     return this.normalizeSlashes(path.relative(base, filePath));
@@ -242,16 +957,47 @@ export class Transpiler {
 
   emit(s: string) { this.output.emit(s); }
   emitNoSpace(s: string) { this.output.emitNoSpace(s); }
+  /** Returns the output of the current file so far. */
+  getOutput(): string { return this.output.getResult(); }
+  replaceOutput(start: number, end: number, s: string) { this.output.replace(start, end, s); }
+
+  /**
+   * Returns all diagnostics, i.e. errors and warnings, reported while translating the last program.
+   */
+  getDiagnostics(): Diagnostic[] { return this.diagnostics; }
 
-  reportError(n: ts.Node, message: string) {
+  /**
+   * Reports a problem with `n`. Depending on the configured severity for `code`, this is an error,
+   * a warning, or ignored.
+   * @return The severity of the reported problem, or null if it was turned off or suppressed.
+   */
+  reportError(n: ts.Node, message: string, code: ErrorCode|string): Severity {
+    let errorCode = formatErrorCode(code);
+    let severities = this.options.severities || {};
+    let configured = severities.hasOwnProperty(errorCode) ? severities[errorCode] : null;
+    if (configured === 'off') return null;
+    let severity = <Severity>configured || getDefaultSeverity(code);
     let file = n.getSourceFile() || this.currentFile;
-    let fileName = this.getRelativeFileName(file.fileName);
-    let start = n.getStart(file);
-    let pos = file.getLineAndCharacterOfPosition(start);
+    let start = file.getLineAndCharacterOfPosition(n.getStart(file));
+    if (isSuppressed(file, start.line, errorCode)) return null;
+    let end = file.getLineAndCharacterOfPosition(n.getEnd());
     // Line and character are 0-based.
-    let fullMessage = `${fileName}:${pos.line + 1}:${pos.character + 1}: ${message}`;
-    if (this.options.failFast) throw new Error(fullMessage);
-    this.errors.push(fullMessage);
+    let diagnostic: Diagnostic = {
+      file: this.getRelativeFileName(file.fileName),
+      line: start.line + 1,
+      column: start.character + 1,
+      endLine: end.line + 1,
+      endColumn: end.character + 1,
+      severity: severity,
+      code: errorCode,
+      message: message,
+      kind: (<any>ts).SyntaxKind[n.kind],
+    };
+    if (this.options.failFast && severity === 'error') {
+      throw new Error(formatDiagnostic(diagnostic));
+    }
+    this.diagnostics.push(diagnostic);
+    return severity;
   }
 
   visit(node: ts.Node) {
@@ -272,14 +1018,36 @@ export class Transpiler {
       if (this.transpilers[i].visitNode(node)) return;
     }
 
-    this.reportError(
+    this.reportUnsupported(
         node,
-        'Unsupported node type ' + (<any>ts).SyntaxKind[node.kind] + ': ' + node.getFullText());
+        'Unsupported node type ' + (<any>ts).SyntaxKind[node.kind] + ': ' + node.getFullText(),
+        ErrorCode.UnsupportedNode);
+  }
+
+  /**
+   * Reports that `n` cannot be translated. Unless that fails the translation, i.e. in lenient mode
+   * or if the problem is not an error, also emits a placeholder in its place.
+   */
+  reportUnsupported(n: ts.Node, message: string, code: ErrorCode|string) {
+    let severity = this.reportError(n, message, code);
+    if (severity === 'error' && !this.options.lenient) return;
+    let source = n.getText().replace(/\*\//g, '* /');
+    this.emit(`/* TS2DART UNSUPPORTED: ${(<any>ts).SyntaxKind[n.kind]} ${source} */`);
+    if (isStatementPosition(n)) {
+      this.emit('throw new UnimplementedError()');
+      // Expression statements emit their own semicolon.
+      if (n.parent.kind !== ts.SyntaxKind.ExpressionStatement) this.emitNoSpace(';');
+    } else if (isExpression(n)) {
+      this.emit('(throw new UnimplementedError())');
+    }
   }
 
   private normalizeSlashes(path: string) { return path.replace(/\\/g, '/'); }
 
   private translateComment(comment: string): string {
+    // Source map references are meaningless in Dart code, see `applyInputSourceMap`.
+    if (comment.match(SOURCE_MAPPING_URL)) return '';
+
     comment = comment.replace(/\{@link ([^\}]+)\}/g, '[$1]');
 
     // Remove the following tags and following comments till end of line.
@@ -296,17 +1064,118 @@ export class Transpiler {
   }
 }
 
-export function getModuleResolver(compilerHost: ts.CompilerHost) {
+/**
+ * Whether `n` is a statement, or the expression of an expression statement, i.e. whether it can be
+ * replaced by a `throw` statement.
+ */
+function isStatementPosition(n: ts.Node): boolean {
+  let parent = n.parent;
+  if (!parent) return false;
+  switch (parent.kind) {
+    case ts.SyntaxKind.Block:
+    case ts.SyntaxKind.CaseClause:
+    case ts.SyntaxKind.DefaultClause:
+    case ts.SyntaxKind.ExpressionStatement:
+      return true;
+    case ts.SyntaxKind.IfStatement:
+      let ifStmt = <ts.IfStatement>parent;
+      return n === ifStmt.thenStatement || n === ifStmt.elseStatement;
+    case ts.SyntaxKind.DoStatement:
+    case ts.SyntaxKind.WhileStatement:
+    case ts.SyntaxKind.ForStatement:
+    case ts.SyntaxKind.ForInStatement:
+    case ts.SyntaxKind.ForOfStatement:
+    case ts.SyntaxKind.LabeledStatement:
+      return n === (<ts.IterationStatement|ts.LabeledStatement>parent).statement;
+    default:
+      return false;
+  }
+}
+
+/** Whether `n` is an expression, i.e. whether it can be replaced by a `throw` expression. */
+function isExpression(n: ts.Node): boolean {
+  switch (n.kind) {
+    case ts.SyntaxKind.ArrayLiteralExpression:
+    case ts.SyntaxKind.ObjectLiteralExpression:
+    case ts.SyntaxKind.PropertyAccessExpression:
+    case ts.SyntaxKind.ElementAccessExpression:
+    case ts.SyntaxKind.CallExpression:
+    case ts.SyntaxKind.NewExpression:
+    case ts.SyntaxKind.TaggedTemplateExpression:
+    case ts.SyntaxKind.TypeAssertionExpression:
+    case ts.SyntaxKind.ParenthesizedExpression:
+    case ts.SyntaxKind.FunctionExpression:
+    case ts.SyntaxKind.ArrowFunction:
+    case ts.SyntaxKind.DeleteExpression:
+    case ts.SyntaxKind.TypeOfExpression:
+    case ts.SyntaxKind.VoidExpression:
+    case ts.SyntaxKind.AwaitExpression:
+    case ts.SyntaxKind.PrefixUnaryExpression:
+    case ts.SyntaxKind.PostfixUnaryExpression:
+    case ts.SyntaxKind.BinaryExpression:
+    case ts.SyntaxKind.ConditionalExpression:
+    case ts.SyntaxKind.TemplateExpression:
+    case ts.SyntaxKind.YieldExpression:
+    case ts.SyntaxKind.SpreadElementExpression:
+    case ts.SyntaxKind.ClassExpression:
+    case ts.SyntaxKind.AsExpression:
+      return true;
+    default:
+      return false;
+  }
+}
+
+/** Returns the files reachable from `fileNames` through the edges of `graph`, without duplicates.
+ */
+function getReachable(fileNames: string[], graph: {[fileName: string]: string[]}): string[] {
+  let seen: {[fileName: string]: boolean} = {};
+  let queue = fileNames.slice();
+  while (queue.length) {
+    (graph[queue.shift()] || []).filter((f) => !seen[f]).forEach((f) => {
+      seen[f] = true;
+      queue.push(f);
+    });
+  }
+  return Object.keys(seen);
+}
+
+/** Whether `fileName` is located in the directory `dir` or below, both being absolute paths. */
+function isWithin(dir: string, fileName: string): boolean {
+  return !path.relative(dir, fileName).match(/^\.\.([\/\\]|$)/);
+}
+
+/** Parsed library files, shared by all programs as they never change. */
+const libSourceFiles: ts.Map<ts.SourceFile> = {};
+
+function getLibSourceFile(fileName: string, libPath: string): ts.SourceFile {
+  if (!libSourceFiles.hasOwnProperty(libPath)) {
+    if (!fs.existsSync(libPath)) return undefined;
+    libSourceFiles[libPath] = ts.createSourceFile(
+        fileName, fs.readFileSync(libPath, 'utf-8'), COMPILER_OPTIONS.target, true);
+  }
+  return libSourceFiles[libPath];
+}
+
+/**
+ * Translates in-memory sources to Dart, see `Transpiler.translateSources`.
+ * @param sources The file contents, keyed by file name.
+ */
+export function translateSources(
+    sources: {[fileName: string]: string}, options: TranspilerOptions = {}): TranslationResult {
+  return new Transpiler(options).translateSources(sources);
+}
+
+export function getModuleResolver(
+    compilerHost: ts.ModuleResolutionHost, options: ts.CompilerOptions = COMPILER_OPTIONS) {
   return (moduleNames: string[], containingFile: string): ts.ResolvedModule[] => {
     let res: ts.ResolvedModule[] = [];
     for (let mod of moduleNames) {
-      let lookupRes =
-          ts.nodeModuleNameResolver(mod, containingFile, COMPILER_OPTIONS, compilerHost);
+      let lookupRes = ts.nodeModuleNameResolver(mod, containingFile, options, compilerHost);
       if (lookupRes.resolvedModule) {
         res.push(lookupRes.resolvedModule);
         continue;
       }
-      lookupRes = ts.classicNameResolver(mod, containingFile, COMPILER_OPTIONS, compilerHost);
+      lookupRes = ts.classicNameResolver(mod, containingFile, options, compilerHost);
       if (lookupRes.resolvedModule) {
         res.push(lookupRes.resolvedModule);
         continue;
@@ -319,20 +1188,14 @@ export function getModuleResolver(compilerHost: ts.CompilerHost) {
 
 class Output {
   private result: string = '';
-  private column: number = 1;
-  private line: number = 1;
 
-  // Position information.
-  private generateSourceMap: boolean;
-  private sourceMap: SourceMapGenerator;
+  // Position information, as offsets into `result`.
+  private mappings: {offset: number, original: SourceMap.Position}[];
 
   constructor(
       private currentFile: ts.SourceFile, private relativeFileName: string,
       generateSourceMap: boolean) {
-    if (generateSourceMap) {
-      this.sourceMap = new SourceMapGenerator({file: relativeFileName + '.dart'});
-      this.sourceMap.setSourceContent(relativeFileName, this.currentFile.text);
-    }
+    if (generateSourceMap) this.mappings = [];
   }
 
   emit(str: string) {
@@ -340,52 +1203,109 @@ class Output {
     this.emitNoSpace(str);
   }
 
-  emitNoSpace(str: string) {
-    this.result += str;
-    for (let i = 0; i < str.length; i++) {
-      if (str[i] === '\n') {
-        this.line++;
-        this.column = 0;
-      } else {
-        this.column++;
-      }
-    }
-  }
+  emitNoSpace(str: string) { this.result += str; }
+
+  getResult(): string { return this.result; }
 
-  getResult(): string { return this.result + this.generateSourceMapComment(); }
+  /**
+   * Replaces the result from `start` to `end` with `str`, which must not be longer. The rest is
+   * filled with spaces, which the formatter drops, so that source mapping offsets stay valid.
+   */
+  replace(start: number, end: number, str: string) {
+    if (str.length > end - start) throw new Error('replacement must not be longer');
+    while (str.length < end - start) str += ' ';
+    this.result = this.result.substring(0, start) + str + this.result.substring(end);
+  }
 
   addSourceMapping(n: ts.Node) {
-    if (!this.generateSourceMap) return;  // source maps disabled.
+    if (!this.mappings) return;  // source maps disabled.
     let file = n.getSourceFile() || this.currentFile;
-    let start = n.getStart(file);
-    let pos = file.getLineAndCharacterOfPosition(start);
+    let pos = file.getLineAndCharacterOfPosition(n.getStart(file));
+    this.mappings.push(
+        {offset: this.result.length, original: {line: pos.line + 1, column: pos.character}});
+  }
 
-    let mapping: SourceMap.Mapping = {
-      original: {line: pos.line + 1, column: pos.character},
-      generated: {line: this.line, column: this.column},
-      source: this.relativeFileName,
-    };
+  /**
+   * Creates a source map for `formattedCode`, the formatted result. The formatter only changes
+   * whitespace, so mappings are carried over by counting the non-whitespace characters before them.
+   */
+  createSourceMap(formattedCode: string, fileName: string): SourceMapGenerator {
+    let sourceMap = new SourceMapGenerator({file: fileName});
+    sourceMap.setSourceContent(this.relativeFileName, this.currentFile.text);
 
-    this.sourceMap.addMapping(mapping);
-  }
+    // The generated position of each non-whitespace character in the formatted code.
+    let positions: SourceMap.Position[] = [];
+    let line = 1, column = 0;
+    for (let i = 0; i < formattedCode.length; i++) {
+      if (formattedCode[i] === '\n') {
+        line++;
+        column = 0;
+        continue;
+      }
+      if (!/\s/.test(formattedCode[i])) positions.push({line, column});
+      column++;
+    }
 
-  private generateSourceMapComment() {
-    if (!this.sourceMap) return '';
-    let base64map = new Buffer(JSON.stringify(this.sourceMap)).toString('base64');
-    return '\n\n//# sourceMappingURL=data:application/json;base64,' + base64map;
+    let count = 0;
+    let offset = 0;
+    for (let mapping of this.mappings) {
+      for (; offset < mapping.offset; offset++) {
+        if (!/\s/.test(this.result[offset])) count++;
+      }
+      if (count >= positions.length) break;
+      sourceMap.addMapping(
+          {original: mapping.original, generated: positions[count], source: this.relativeFileName});
+    }
+    return sourceMap;
   }
 }
 
 // CLI entry point
 if (require.main === module) {
-  let args = require('minimist')(process.argv.slice(2), {base: 'string'});
+  let args = require('minimist')(process.argv.slice(2), {base: 'string', alias: {p: 'project'}});
+  // With --format=json, diagnostics are printed to stdout as a JSON array (one per line in watch
+  // mode), for consumption by editors and CI tools.
+  let printDiagnostics = (diagnostics: Diagnostic[]) => {
+    if (args.format === 'json') {
+      console.log(JSON.stringify(diagnostics));
+    } else {
+      diagnostics.forEach((d) => console.error(formatDiagnostic(d)));
+    }
+  };
   try {
     let transpiler = new Transpiler(args);
-    console.error('Transpiling', args._, 'to', args.destination);
-    transpiler.transpile(args._, args.destination);
+    if (args._[0] === 'map-errors') {
+      // Reads Dart tool output from stdin, printing it with locations mapped to TypeScript.
+      let mapper = new DartErrorMapper();
+      readline.createInterface({input: process.stdin, output: null})
+          .on('line', (line: string) => console.log(mapper.mapLine(line)));
+    } else if (args._[0] === 'audit') {
+      let report = transpiler.audit(args._.slice(1));
+      console.log(args.format === 'json' ? JSON.stringify(report) : formatAuditReport(report));
+    } else if (args.watch) {
+      console.error('Transpiling', args._, 'to', args.destination);
+      transpiler.watch(args._, args.destination, (error, outputFiles) => {
+        if (error && error.name !== 'TS2DartError') console.error(error.message);
+        printDiagnostics(transpiler.getDiagnostics());
+        if (!error) reportWatchCycle(error, outputFiles);
+      });
+    } else if (args.jobs > 1) {
+      console.error('Transpiling', args._, 'to', args.destination, 'in', args.jobs, 'processes');
+      transpiler.transpileInWorkers(args._, args.destination, args.jobs, (error) => {
+        if (error && error.name !== 'TS2DartError') throw error;
+        printDiagnostics(transpiler.getDiagnostics());
+        if (transpiler.getDiagnostics().some((d) => d.severity === 'error')) process.exit(1);
+      });
+    } else {
+      console.error('Transpiling', args._, 'to', args.destination);
+      transpiler.transpile(args._, args.destination);
+      printDiagnostics(transpiler.getDiagnostics());
+      // In lenient mode, output is written despite errors, but the run still fails.
+      if (transpiler.getDiagnostics().some((d) => d.severity === 'error')) process.exit(1);
+    }
   } catch (e) {
     if (e.name !== 'TS2DartError') throw e;
-    console.error(e.message);
+    printDiagnostics(e.diagnostics);
     process.exit(1);
   }
 }
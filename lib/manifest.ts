@@ -0,0 +1,88 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** The manifest's file name, in the destination directory. */
+export const MANIFEST_FILE_NAME = '.ts2dart-manifest.json';
+
+export interface ManifestEntry {
+  /** The output file, relative to the destination directory. */
+  output: string;
+  /** A hash of everything the output depends on, see `hashInputs`. */
+  hash: string;
+  /** The Dart URIs imported by the output, see `Transpiler.getImportedUris`. */
+  imports?: string[];
+}
+
+/** Records the outputs of previous runs, keyed by input file name relative to the base path. */
+export interface Manifest {
+  version: string;
+  files: {[input: string]: ManifestEntry};
+}
+
+let version: string;
+
+/** Returns ts2dart's version, from the closest package.json. */
+export function getVersion(): string {
+  if (version) return version;
+  version = 'unknown';
+  for (let dir = __dirname; dir !== path.dirname(dir); dir = path.dirname(dir)) {
+    let packageJson = path.join(dir, 'package.json');
+    if (!fs.existsSync(packageJson)) continue;
+    let pkg = JSON.parse(fs.readFileSync(packageJson, 'utf-8'));
+    if (pkg.name === 'ts2dart') version = pkg.version;
+    break;
+  }
+  return version;
+}
+
+export function hashInputs(inputs: string[]): string {
+  let hash = crypto.createHash('sha1');
+  // Separate inputs so that moving text between them changes the hash.
+  inputs.forEach((input) => hash.update(input.length + ':' + input));
+  return hash.digest('hex');
+}
+
+/**
+ * Reads the manifest in `destination`. Returns an empty manifest if there is none, or if it was
+ * written by a different version of ts2dart.
+ */
+export function readManifest(destination: string): Manifest {
+  let empty: Manifest = {version: getVersion(), files: {}};
+  let fileName = path.join(destination, MANIFEST_FILE_NAME);
+  if (!fs.existsSync(fileName)) return empty;
+  let manifest: Manifest;
+  try {
+    manifest = JSON.parse(fs.readFileSync(fileName, 'utf-8'));
+  } catch (e) {
+    return empty;
+  }
+  return manifest.version === getVersion() && manifest.files ? manifest : empty;
+}
+
+export function writeManifest(destination: string, manifest: Manifest) {
+  let fileName = path.join(destination, MANIFEST_FILE_NAME);
+  fs.writeFileSync(fileName, JSON.stringify(manifest, null, 2) + '\n');
+}
+
+/**
+ * Deletes the outputs (and source maps) of inputs that no longer exist, and removes them from the
+ * manifest.
+ * @param basePath The path manifest inputs are relative to.
+ * @return The deleted output files.
+ */
+export function cleanStaleOutputs(
+    manifest: Manifest, basePath: string, destination: string): string[] {
+  let deleted: string[] = [];
+  Object.keys(manifest.files)
+      .filter((input) => !fs.existsSync(path.resolve(basePath, input)))
+      .forEach((input) => {
+        let output = path.join(destination, manifest.files[input].output);
+        [output, output + '.map'].filter((f) => fs.existsSync(f)).forEach((f) => {
+          fs.unlinkSync(f);
+          deleted.push(f);
+        });
+        delete manifest.files[input];
+      });
+  return deleted;
+}
@@ -1,14 +1,37 @@
+import * as path from 'path';
 import * as ts from 'typescript';
 import * as base from './base';
 import {Transpiler} from './main';
 import {FacadeConverter} from './facade_converter';
+import {ErrorCode} from './diagnostic';
+
+/** Translates module names matching `pattern` to `replacement`, see `String.replace`. */
+export interface ImportRewriteRule {
+  pattern: string|RegExp;
+  replacement: string;
+}
 
 export default class ModuleTranspiler extends base.TranspilerBase {
-  constructor(tr: Transpiler, private fc: FacadeConverter, private generateLibraryName: boolean) {
+  /** Prefixes of libraries imported for renamed imports and exports, keyed by URI. */
+  private libraryPrefixes: {[uri: string]: string};
+  /** All identifiers in the current file, to generate unique library prefixes. */
+  private usedNames: {[name: string]: boolean};
+  /** Getters forwarding renamed exports, emitted at the end of the file. */
+  private forwardingGetters: Array<{name: string, target: string}>;
+  /** The ranges of import and export directives in the output, see `pruneImports`. */
+  private directives: Array<{start: number, end: number}>;
+  /** The prefix for dart:core in the current file, see `visitShadowedCoreNames`. */
+  private corePrefix: string;
+
+  constructor(
+      tr: Transpiler, private fc: FacadeConverter, private generateLibraryName: boolean,
+      private importRewrites: {[moduleName: string]: string}|ImportRewriteRule[] = {},
+      private privatizeNonExported = false) {
     super(tr);
   }
 
   visitNode(node: ts.Node): boolean {
+    let start = this.getOutput().length;
     switch (node.kind) {
       case ts.SyntaxKind.SourceFile:
         if (this.generateLibraryName) {
@@ -17,28 +40,65 @@ export default class ModuleTranspiler extends base.TranspilerBase {
           this.emit(';');
         }
         this.fc.emitExtraImports(<ts.SourceFile>node);
+        this.prepareRenamedImports(<ts.SourceFile>node);
+        this.visitLocalExportLists(<ts.SourceFile>node);
+        this.visitDefaultReExports(<ts.SourceFile>node);
+        this.visitShadowedCoreNames(<ts.SourceFile>node);
+        this.directives.push({start, end: this.getOutput().length});
         ts.forEachChild(node, this.visit.bind(this));
         break;
       case ts.SyntaxKind.EndOfFileToken:
+        this.forwardingGetters.forEach((getter) => {
+          this.emit('get');
+          this.emit(getter.name);
+          this.emit('=>');
+          this.fc.emitReference(getter.target);
+          this.emit(';');
+        });
         ts.forEachChild(node, this.visit.bind(this));
+        this.pruneImports();
         break;
       case ts.SyntaxKind.ImportDeclaration:
         let importDecl = <ts.ImportDeclaration>node;
-        if (importDecl.importClause) {
-          if (this.isEmptyImport(importDecl)) return true;
+        if (!importDecl.importClause) {
+          // Imported for its side effects.
           this.emit('import');
           this.visitExternalModuleReferenceExpr(importDecl.moduleSpecifier);
-          this.visit(importDecl.importClause);
-        } else {
-          this.reportError(importDecl, 'bare import is unsupported');
+          this.emit(';');
+          break;
+        }
+        if (this.isEmptyImport(importDecl)) return true;
+        let clause = importDecl.importClause;
+        let named = this.getNamedImports(importDecl);
+        if (this.isShownDefaultImport(clause) || this.filterImports(named).length > 0) {
+          this.emit('import');
+          this.visitExternalModuleReferenceExpr(importDecl.moduleSpecifier);
+          this.visit(clause);
+          this.emit(';');
+        }
+        if (clause.namedBindings && clause.namedBindings.kind === ts.SyntaxKind.NamespaceImport) {
+          this.emit('import');
+          this.visitExternalModuleReferenceExpr(importDecl.moduleSpecifier);
+          this.visit(clause.namedBindings);
+          this.emit(';');
+        }
+        if (named.some(ModuleTranspiler.isRenamed) ||
+            clause.name && !this.isShownDefaultImport(clause)) {
+          this.emitPrefixedImport(importDecl.moduleSpecifier);
         }
-        this.emit(';');
         break;
       case ts.SyntaxKind.ImportClause:
+        // Namespace imports are emitted separately, see above.
         let importClause = <ts.ImportClause>node;
-        if (importClause.name) this.fc.visitTypeName(importClause.name);
-        if (importClause.namedBindings) {
-          this.visit(importClause.namedBindings);
+        this.emit('show');
+        let isDefaultShown = this.isShownDefaultImport(importClause);
+        if (isDefaultShown) this.emit(this.getDefaultImportName(importClause.name));
+        let bindings = importClause.namedBindings;
+        if (bindings && bindings.kind === ts.SyntaxKind.NamedImports) {
+          if (isDefaultShown && this.filterImports((<ts.NamedImports>bindings).elements).length) {
+            this.emit(',');
+          }
+          this.visit(bindings);
         }
         break;
       case ts.SyntaxKind.NamespaceImport:
@@ -47,45 +107,112 @@ export default class ModuleTranspiler extends base.TranspilerBase {
         this.fc.visitTypeName(nsImport.name);
         break;
       case ts.SyntaxKind.NamedImports:
-        this.emit('show');
         let used = this.filterImports((<ts.NamedImports>node).elements);
-        if (used.length === 0) {
-          this.reportError(node, 'internal error, used imports must not be empty');
+        if (used.length === 0 && !(<ts.ImportClause>node.parent).name) {
+          this.reportError(
+              node, 'internal error, used imports must not be empty', ErrorCode.Internal);
         }
         this.visitList(used);
         break;
       case ts.SyntaxKind.NamedExports:
         let exportElements = (<ts.NamedExports>node).elements;
         this.emit('show');
-        if (exportElements.length === 0) this.reportError(node, 'empty export list');
-        this.visitList((<ts.NamedExports>node).elements);
+        if (exportElements.length === 0) {
+          this.reportError(node, 'empty export list', ErrorCode.EmptyExportList);
+        }
+        this.visitList(exportElements.filter((e) => !ModuleTranspiler.isRenamed(e)));
         break;
       case ts.SyntaxKind.ImportSpecifier:
       case ts.SyntaxKind.ExportSpecifier:
         let spec = <ts.ImportOrExportSpecifier>node;
-        if (spec.propertyName) {
-          this.reportError(spec.propertyName, 'import/export renames are unsupported in Dart');
+        let shown = this.fc.getShownNames(spec.name);
+        if (shown.length === 1 && shown[0] === spec.name.text) {
+          this.fc.visitTypeName(spec.name);
+        } else {
+          this.emit(shown.join(', '));
         }
-        this.fc.visitTypeName(spec.name);
         break;
       case ts.SyntaxKind.ExportDeclaration:
         let exportDecl = <ts.ExportDeclaration>node;
-        this.emit('export');
-        if (exportDecl.moduleSpecifier) {
+        // Local export lists are handled up front, see `visitLocalExportLists`.
+        if (!exportDecl.moduleSpecifier) break;
+        if (!exportDecl.exportClause) {
+          this.emit('export');
           this.visitExternalModuleReferenceExpr(exportDecl.moduleSpecifier);
-        } else {
-          this.reportError(node, 're-exports must have a module URL (export x from "./y").');
+          let hidden = this.getShadowedStarExports(exportDecl);
+          if (hidden.length > 0) {
+            this.emit('hide');
+            this.emit(hidden.join(', '));
+          }
+          this.emit(';');
+          break;
         }
-        if (exportDecl.exportClause) this.visit(exportDecl.exportClause);
+        let exported = exportDecl.exportClause.elements;
+        let renamed = exported.filter(ModuleTranspiler.isRenamed);
+        if (renamed.length > 0) {
+          let prefix = this.emitPrefixedImport(exportDecl.moduleSpecifier);
+          renamed.forEach((e) => this.addForwardingGetter(e, prefix));
+          if (renamed.length === exported.length) break;
+        }
+        this.emit('export');
+        this.visitExternalModuleReferenceExpr(exportDecl.moduleSpecifier);
+        this.visit(exportDecl.exportClause);
         this.emit(';');
         break;
+      case ts.SyntaxKind.ExportAssignment:
+        // `export = x;` is handled like `export default x;`.
+        this.visitDefaultExport(<ts.ExportAssignment>node);
+        break;
+      case ts.SyntaxKind.ModuleDeclaration:
+        let moduleDecl = <ts.ModuleDeclaration>node;
+        // Modules named by strings declare external modules, as in typings.
+        if (moduleDecl.name.kind !== ts.SyntaxKind.Identifier) return false;
+        // Declarations in namespaces are emitted as flattened top-level declarations, see
+        // `FacadeConverter.getNamespacedName`.
+        this.visit(moduleDecl.body);
+        break;
+      case ts.SyntaxKind.ModuleBlock:
+        (<ts.ModuleBlock>node).statements.forEach((stmt) => {
+          if (ModuleTranspiler.isDeclaration(stmt)) {
+            this.visit(stmt);
+          } else {
+            this.reportUnsupported(
+                stmt, 'statements in namespaces are unsupported', ErrorCode.NamespaceStatement);
+          }
+        });
+        break;
       case ts.SyntaxKind.ImportEqualsDeclaration:
         let importEqDecl = <ts.ImportEqualsDeclaration>node;
-        this.emit('import');
-        this.visit(importEqDecl.moduleReference);
-        this.emit('as');
-        this.fc.visitTypeName(importEqDecl.name);
-        this.emit(';');
+        if (importEqDecl.moduleReference.kind !== ts.SyntaxKind.ExternalModuleReference) {
+          // `import x = A.B;` aliases are resolved in references, see `prepareRenamedImports`.
+          break;
+        }
+        let assigned = this.getExportAssignedSymbol(importEqDecl);
+        let moduleName = (<ts.ExternalModuleReference>importEqDecl.moduleReference).expression;
+        if (!assigned) {
+          this.emit('import');
+          this.visit(importEqDecl.moduleReference);
+          this.emit('as');
+          this.fc.visitTypeName(importEqDecl.name);
+          this.emit(';');
+        } else if (assigned.flags & ts.SymbolFlags.Namespace) {
+          // Namespaces are flattened, so import their members, see `FacadeConverter.getShownNames`.
+          this.emit('import');
+          this.visit(importEqDecl.moduleReference);
+          this.emit('show');
+          this.emit(this.fc.getShownNames(importEqDecl.name).join(', '));
+          this.emit(';');
+        } else if (
+            this.getDefaultImportName(importEqDecl.name) ===
+            this.fc.getDartName(importEqDecl.name)) {
+          this.emit('import');
+          this.visit(importEqDecl.moduleReference);
+          this.emit('show');
+          this.emit(this.fc.getDartName(importEqDecl.name));
+          this.emit(';');
+        } else {
+          this.emitPrefixedImport(moduleName);
+        }
         break;
       case ts.SyntaxKind.ExternalModuleReference:
         this.visitExternalModuleReferenceExpr((<ts.ExternalModuleReference>node).expression);
@@ -94,60 +221,572 @@ export default class ModuleTranspiler extends base.TranspilerBase {
       default:
         return false;
     }
+    if (ModuleTranspiler.isDirective(node)) {
+      this.directives.push({start, end: this.getOutput().length});
+    }
     return true;
   }
 
-  private static isIgnoredImport(e: ts.ImportSpecifier) {
-    // TODO: unify with facade_converter.ts
-    let name = base.ident(e.name);
-    switch (name) {
-      case 'CONST':
-      case 'CONST_EXPR':
-      case 'normalizeBlank':
-      case 'forwardRef':
-      case 'ABSTRACT':
-      case 'IMPLEMENTS':
+  /** dart:core names that might be shadowed by user declarations, see `visitShadowedCoreNames`. */
+  private static DART_CORE_NAMES =
+      ['DateTime', 'Error', 'Function', 'List', 'Map', 'Object', 'Set', 'String', 'Type'];
+
+  private static isDirective(node: ts.Node): boolean {
+    switch (node.kind) {
+      case ts.SyntaxKind.ImportDeclaration:
+      case ts.SyntaxKind.ImportEqualsDeclaration:
+      case ts.SyntaxKind.ExportDeclaration:
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private static isRenamed(e: ts.ImportOrExportSpecifier) { return !!e.propertyName; }
+
+  private static isDeclaration(stmt: ts.Statement): boolean {
+    switch (stmt.kind) {
+      case ts.SyntaxKind.ClassDeclaration:
+      case ts.SyntaxKind.EnumDeclaration:
+      case ts.SyntaxKind.FunctionDeclaration:
+      case ts.SyntaxKind.InterfaceDeclaration:
+      case ts.SyntaxKind.ModuleDeclaration:
+      case ts.SyntaxKind.VariableStatement:
         return true;
       default:
         return false;
     }
   }
 
+  /** Whether `sourceFile` is a module, as opposed to a script declaring globals. */
+  private static isModule(sourceFile: ts.SourceFile): boolean {
+    return sourceFile.statements.some((stmt) => {
+      switch (stmt.kind) {
+        case ts.SyntaxKind.ImportDeclaration:
+        case ts.SyntaxKind.ExportDeclaration:
+        case ts.SyntaxKind.ExportAssignment:
+          return true;
+        case ts.SyntaxKind.ImportEqualsDeclaration:
+          let moduleReference = (<ts.ImportEqualsDeclaration>stmt).moduleReference;
+          return moduleReference.kind === ts.SyntaxKind.ExternalModuleReference;
+        default:
+          return (stmt.flags & ts.NodeFlags.Export) !== 0;
+      }
+    });
+  }
+
   private visitExternalModuleReferenceExpr(expr: ts.Expression) {
+    let uri = this.translateModuleName(expr);
+    this.recordImport(uri);
+    this.emit(JSON.stringify(uri));
+  }
+
+  private translateModuleName(expr: ts.Expression): string {
     // TODO: what if this isn't a string literal?
     let moduleName = <ts.StringLiteral>expr;
-    let text = moduleName.text;
-    if (text.match(/^\.\//)) {
+    let uri = this.rewriteImport(moduleName.text);
+    return uri !== null ? uri : this.getImportUri(moduleName.text);
+  }
+
+  /** Applies the configured `importRewrites`, returns null if none matches. */
+  private rewriteImport(moduleName: string): string {
+    if (!Array.isArray(this.importRewrites)) {
+      let mapping = <{[moduleName: string]: string}>this.importRewrites;
+      return mapping.hasOwnProperty(moduleName) ? mapping[moduleName] : null;
+    }
+    let rules = <ImportRewriteRule[]>this.importRewrites;
+    for (let rule of rules) {
+      let pattern = typeof rule.pattern === 'string' ? new RegExp(<string>rule.pattern) :
+                                                       <RegExp>rule.pattern;
+      if (moduleName.match(pattern)) return moduleName.replace(pattern, rule.replacement);
+    }
+    return null;
+  }
+
+  private getImportUri(moduleName: string): string {
+    let resolved = this.resolveModule(moduleName);
+    if (resolved) {
+      // Import the file TypeScript resolved, e.g. `x/index.ts` for `./x`, or a `paths` mapping.
+      let from = path.dirname(this.getRelativeFileName());
+      let relative = path.relative(from, this.getRelativeFileName(resolved));
+      return relative.replace(/\\/g, '/').replace(/\.(js|es6|ts)$/, '.dart');
+    }
+    if (moduleName.match(/^\.\//)) {
       // Strip './' to be more Dart-idiomatic.
-      text = text.substring(2);
-    } else if (!text.match(/^\.\.\//)) {
+      moduleName = moduleName.substring(2);
+    } else if (!moduleName.match(/^\.\.\//)) {
       // Unprefixed imports are package imports.
-      text = 'package:' + text;
+      moduleName = 'package:' + moduleName;
+    }
+    return moduleName + '.dart';
+  }
+
+  private getNamedImports(n: ts.ImportDeclaration): ts.ImportSpecifier[] {
+    let bindings = n.importClause.namedBindings;
+    if (!bindings || bindings.kind !== ts.SyntaxKind.NamedImports) return [];
+    return (<ts.NamedImports>bindings).elements;
+  }
+
+  /**
+   * Dart cannot rename imports, so `import {a as b} from "x"` is translated to a prefixed import
+   * of `x`, and references to `b` to `x.a`. The same applies to default imports whose local name
+   * differs from the name of the default export.
+   */
+  private prepareRenamedImports(sourceFile: ts.SourceFile) {
+    this.libraryPrefixes = {};
+    this.usedNames = null;
+    this.forwardingGetters = [];
+    this.directives = [];
+    this.fc.resetRenames();
+    sourceFile.statements.forEach((stmt) => {
+      if (stmt.kind === ts.SyntaxKind.ImportEqualsDeclaration) {
+        this.prepareImportEquals(<ts.ImportEqualsDeclaration>stmt);
+      }
+      if (stmt.kind !== ts.SyntaxKind.ImportDeclaration) return;
+      let importDecl = <ts.ImportDeclaration>stmt;
+      if (!importDecl.importClause) return;
+      let defaultImport = importDecl.importClause.name;
+      if (defaultImport && !this.isShownDefaultImport(importDecl.importClause)) {
+        let prefix = this.getLibraryPrefix(importDecl.moduleSpecifier);
+        let symbol = this.getTypeChecker().getSymbolAtLocation(defaultImport);
+        let name = this.getDefaultImportName(defaultImport);
+        this.fc.addRename(defaultImport.text, symbol, `${prefix}.${name}`);
+      }
+      this.getNamedImports(importDecl)
+          .filter((e) => ModuleTranspiler.isRenamed(e) && !this.fc.isIgnoredImport(e))
+          .forEach((e) => {
+            let prefix = this.getLibraryPrefix(importDecl.moduleSpecifier);
+            let symbol = this.getTypeChecker().getSymbolAtLocation(e.name);
+            let name = this.fc.escapeName(e.propertyName.text, symbol);
+            if (symbol) this.fc.addRename(e.name.text, symbol, `${prefix}.${name}`);
+          });
+    });
+  }
+
+  /**
+   * Registers the renames for `import x = A.B;`, which has no equivalent in Dart: references to `x`
+   * become references to (the flattened name of) `A.B`. References to members of aliased namespaces
+   * are renamed as members, see `FacadeConverter.getRename`. For `import x = require("y");` of a
+   * module with `export =`, references to `x` are translated like default imports.
+   */
+  private prepareImportEquals(n: ts.ImportEqualsDeclaration) {
+    let tc = this.getTypeChecker();
+    let alias = tc.getSymbolAtLocation(n.name);
+    if (!alias) return;
+    if (n.moduleReference.kind === ts.SyntaxKind.ExternalModuleReference) {
+      let assigned = this.getExportAssignedSymbol(n);
+      if (!assigned) return;
+      let moduleName = (<ts.ExternalModuleReference>n.moduleReference).expression;
+      let name = this.getDefaultImportName(n.name);
+      if (assigned.flags & ts.SymbolFlags.Namespace) {
+        // Merged with a class, function or enum, which is shown under its own name.
+        if (assigned.name !== n.name.text) this.fc.addRename(n.name.text, alias, assigned.name);
+      } else if (name !== this.fc.getDartName(n.name)) {
+        let prefix = this.getLibraryPrefix(moduleName);
+        this.fc.addRename(n.name.text, alias, `${prefix}.${name}`);
+      }
+      return;
+    }
+    let target = tc.getAliasedSymbol(alias);
+    let aliasable = ts.SymbolFlags.Class | ts.SymbolFlags.Interface | ts.SymbolFlags.Enum |
+        ts.SymbolFlags.Function | ts.SymbolFlags.Variable | ts.SymbolFlags.TypeAlias;
+    if (!target || !(target.flags & aliasable)) return;
+    let replacement = this.fc.getNamespacedName(target) || base.ident(n.moduleReference);
+    this.fc.addRename(n.name.text, alias, replacement);
+  }
+
+  /**
+   * Returns the symbol assigned by `export =` in the module imported by `import x = require("y");`.
+   * Returns null if the module exports its members as usual, or is declared in typings.
+   */
+  private getExportAssignedSymbol(n: ts.ImportEqualsDeclaration): ts.Symbol {
+    let tc = this.getTypeChecker();
+    let alias = tc.getSymbolAtLocation(n.name);
+    let target = alias && tc.getAliasedSymbol(alias);
+    let decl = target && target.declarations && target.declarations[0];
+    if (!decl || decl.kind === ts.SyntaxKind.SourceFile) return null;
+    if (decl.getSourceFile().fileName.match(/\.d\.ts$/)) return null;
+    return target;
+  }
+
+  /**
+   * Dart reports names exported by more than one library as conflicts. In TypeScript, local exports
+   * shadow the names of `export * from "y";`, and the first `export *` of a name wins. Returns the
+   * names of `exportDecl`'s module that are shadowed like this, and so must be hidden.
+   */
+  private getShadowedStarExports(exportDecl: ts.ExportDeclaration): string[] {
+    let tc = this.getTypeChecker();
+    let resolve = (s: ts.Symbol) =>
+        s && s.flags & ts.SymbolFlags.Alias ? tc.getAliasedSymbol(s) : s;
+    let getModuleExports = (moduleName: ts.Expression) => {
+      let moduleSymbol = tc.getSymbolAtLocation(moduleName);
+      return moduleSymbol ? tc.getExportsOfModule(moduleSymbol) : [];
+    };
+    let exported: {[name: string]: ts.Symbol} = {};
+    let isBefore = true;
+    exportDecl.getSourceFile().statements.forEach((stmt) => {
+      if (stmt === exportDecl) isBefore = false;
+      let names: ts.Node[] = [];
+      if (stmt.kind === ts.SyntaxKind.ExportDeclaration) {
+        let decl = <ts.ExportDeclaration>stmt;
+        if (decl.exportClause) {
+          names = decl.exportClause.elements.map((e) => e.name);
+        } else if (isBefore && decl !== exportDecl) {
+          getModuleExports(decl.moduleSpecifier).forEach((s) => {
+            if (!exported.hasOwnProperty(s.name)) exported[s.name] = resolve(s);
+          });
+        }
+      } else if (this.hasFlag(stmt, ts.NodeFlags.Export)) {
+        if (stmt.kind === ts.SyntaxKind.VariableStatement) {
+          names = (<ts.VariableStatement>stmt).declarationList.declarations.map((d) => d.name);
+        } else {
+          names = [(<ts.DeclarationStatement>stmt).name];
+        }
+      }
+      names.filter((n) => n && n.kind === ts.SyntaxKind.Identifier).forEach((n) => {
+        exported[(<ts.Identifier>n).text] = resolve(tc.getSymbolAtLocation(n));
+      });
+    });
+    return getModuleExports(exportDecl.moduleSpecifier)
+        .filter((s) => s.name !== 'default' && exported.hasOwnProperty(s.name))
+        .filter((s) => exported[s.name] !== resolve(s))
+        .map((s) => s.name)
+        .sort();
+  }
+
+  /**
+   * Everything top-level is public in Dart, so in files with local export lists, `export {a, b};`,
+   * all other top-level declarations are made library-private. Exported imports are re-exported
+   * from their module. The export lists themselves are not emitted.
+   */
+  private visitLocalExportLists(sourceFile: ts.SourceFile) {
+    let exports: ts.ExportSpecifier[] = [];
+    let exported: {[name: string]: boolean} = {};
+    sourceFile.statements.forEach((stmt) => {
+      if (stmt.kind === ts.SyntaxKind.ExportAssignment) {
+        // `export default x;`, see `visitDefaultExport`.
+        let name = base.ident((<ts.ExportAssignment>stmt).expression);
+        if (name) exported[name] = true;
+      }
+      if (stmt.kind !== ts.SyntaxKind.ExportDeclaration) return;
+      let exportDecl = <ts.ExportDeclaration>stmt;
+      if (exportDecl.moduleSpecifier) return;
+      if (exportDecl.exportClause.elements.length === 0) {
+        this.reportError(exportDecl, 'empty export list', ErrorCode.EmptyExportList);
+      }
+      exports = exports.concat(exportDecl.exportClause.elements);
+    });
+    if (exports.length === 0) {
+      if (this.privatizeNonExported && ModuleTranspiler.isModule(sourceFile)) {
+        this.privatizeDeclarations(sourceFile, exported);
+      }
+      return;
     }
-    this.emit(JSON.stringify(text + '.dart'));
+
+    exports.filter((e) => !ModuleTranspiler.isRenamed(e))
+        .forEach((e) => exported[e.name.text] = true);
+    this.privatizeDeclarations(sourceFile, exported);
+
+    let tc = this.getTypeChecker();
+    exports.forEach((e) => {
+      let local = tc.getExportSpecifierLocalTargetSymbol(e);
+      let declaration = local && (local.flags & ts.SymbolFlags.Alias) && local.declarations[0];
+      if (ModuleTranspiler.isRenamed(e) ||
+          declaration && declaration.kind === ts.SyntaxKind.ImportSpecifier &&
+              ModuleTranspiler.isRenamed(<ts.ImportSpecifier>declaration)) {
+        this.addForwardingGetter(e, null);
+      } else if (declaration && declaration.kind === ts.SyntaxKind.ImportSpecifier) {
+        let importDecl =
+            <ts.ImportDeclaration>this.getAncestor(declaration, ts.SyntaxKind.ImportDeclaration);
+        this.emit('export');
+        this.visitExternalModuleReferenceExpr(importDecl.moduleSpecifier);
+        this.emit('show');
+        this.emit(this.fc.getDartName(e.name));
+        this.emit(';');
+      } else if (declaration) {
+        this.reportError(
+            e, `cannot export ${e.name.text}, re-export its module instead (export * from "./y")`,
+            ErrorCode.ReExportWithoutURL);
+      }
+    });
+  }
+
+  /**
+   * Renames the top-level declarations of `sourceFile` that are neither declared with `export` nor
+   * in `exported` to `_name`, making them library-private in Dart. References are renamed, too.
+   * Names that are taken already get trailing underscores, e.g. `_name_`.
+   */
+  private privatizeDeclarations(sourceFile: ts.SourceFile, exported: {[name: string]: boolean}) {
+    let tc = this.getTypeChecker();
+    sourceFile.statements.forEach((stmt) => {
+      if (this.hasFlag(stmt, ts.NodeFlags.Export) || this.hasFlag(stmt, ts.NodeFlags.Ambient)) {
+        return;
+      }
+      let names: ts.Node[] = [];
+      switch (stmt.kind) {
+        case ts.SyntaxKind.ClassDeclaration:
+        case ts.SyntaxKind.EnumDeclaration:
+        case ts.SyntaxKind.FunctionDeclaration:
+        case ts.SyntaxKind.InterfaceDeclaration:
+          names.push((<ts.DeclarationStatement>stmt).name);
+          break;
+        case ts.SyntaxKind.VariableStatement:
+          let declarations = (<ts.VariableStatement>stmt).declarationList.declarations;
+          names = declarations.map((d) => d.name);
+          break;
+        default:
+          break;
+      }
+      names.filter((n) => n && n.kind === ts.SyntaxKind.Identifier)
+          .map((n) => <ts.Identifier>n)
+          .filter((n) => !exported[n.text] && !n.text.match(/^_/))
+          .forEach((n) => {
+            let symbol = tc.getSymbolAtLocation(n);
+            if (symbol) {
+              this.fc.addRename(n.text, symbol, this.getUnusedName('_' + n.text, sourceFile));
+            }
+          });
+    });
+  }
+
+  /** Returns a prefix for importing `moduleName`, unique within the current file. */
+  private getLibraryPrefix(moduleName: ts.Expression): string {
+    return this.getUriPrefix(this.translateModuleName(moduleName), moduleName.getSourceFile());
+  }
+
+  private getUriPrefix(uri: string, sourceFile: ts.SourceFile): string {
+    if (this.libraryPrefixes.hasOwnProperty(uri)) return this.libraryPrefixes[uri];
+    let prefix = uri.replace(/\.dart$/, '').replace(/^.*[\/:]/, '').replace(/\W/g, '_');
+    if (!prefix.match(/^[a-zA-Z_]/)) prefix = '_' + prefix;
+    prefix = this.getUnusedName(prefix, sourceFile);
+    this.libraryPrefixes[uri] = prefix;
+    return prefix;
+  }
+
+  /**
+   * Returns `name`, followed by as many `_` as needed to make it unique within `sourceFile`, and
+   * reserves it.
+   */
+  private getUnusedName(name: string, sourceFile: ts.SourceFile): string {
+    if (!this.usedNames) {
+      this.usedNames = {};
+      let collectNames = (n: ts.Node) => {
+        // The original names of renamed imports and exports are not in scope.
+        let isOriginalName = n.parent && (<ts.ImportOrExportSpecifier>n.parent).propertyName === n;
+        if (n.kind === ts.SyntaxKind.Identifier && !isOriginalName) {
+          this.usedNames[(<ts.Identifier>n).text] = true;
+        }
+        ts.forEachChild(n, collectNames);
+      };
+      collectNames(sourceFile);
+    }
+    while (this.usedNames[name] || base.isReservedName(name)) name += '_';
+    this.usedNames[name] = true;
+    return name;
+  }
+
+  /** Emits `import "x.dart" as x;` for renamed imports and exports of `moduleName`. */
+  private emitPrefixedImport(moduleName: ts.Expression): string {
+    let prefix = this.getLibraryPrefix(moduleName);
+    this.emit('import');
+    this.visitExternalModuleReferenceExpr(moduleName);
+    this.emit('as');
+    this.emit(prefix);
+    this.emit(';');
+    return prefix;
+  }
+
+  /**
+   * Dart cannot rename exports either, so `export {a as b}` declares a getter `b` returning `a`,
+   * which works for functions and variables. `prefix` is the library prefix for re-exports.
+   */
+  private addForwardingGetter(e: ts.ExportSpecifier, prefix: string) {
+    let tc = this.getTypeChecker();
+    let alias = tc.getSymbolAtLocation(e.name);
+    let aliased = alias && tc.getAliasedSymbol(alias);
+    if (!aliased || !(aliased.flags & (ts.SymbolFlags.Function | ts.SymbolFlags.Variable))) {
+      this.reportError(
+          e, `cannot rename export ${(e.propertyName || e.name).text}, only functions and ` +
+              'variables can be renamed in Dart',
+          ErrorCode.ImportExportRename);
+      return;
+    }
+    let name = (e.propertyName || e.name).text;
+    let target = `${prefix}.${this.fc.escapeName(name, aliased)}`;
+    if (!prefix) {
+      // Local exports might refer to renamed declarations or imports.
+      target = this.fc.getSymbolRename(name, tc.getExportSpecifierLocalTargetSymbol(e)) ||
+          this.fc.escapeName(name, aliased);
+    }
+    this.forwardingGetters.push({name: this.fc.escapeName(e.name.text), target});
+  }
+
+  /**
+   * Dart has no default exports. Local declarations exported by `export default x;` or
+   * `export = x;` keep their name, imported ones are re-exported from their module, and other
+   * expressions are assigned to a new top-level variable, see
+   * `FacadeConverter.getDefaultExportName`.
+   */
+  private visitDefaultExport(n: ts.ExportAssignment) {
+    // Re-exports are emitted up front, see `visitDefaultReExports`.
+    if (this.getDefaultExportedDeclaration(n)) return;
+    this.emit('final');
+    this.emit(this.fc.getDefaultExportName(n));
+    this.emit('=');
+    this.visit(n.expression);
+    this.emit(';');
+  }
+
+  /**
+   * Top-level declarations and imports shadow the implicitly imported dart:core names, e.g. a class
+   * `List`. If `sourceFile` declares or imports such names, dart:core is imported with a prefix,
+   * and the references to dart:core that ts2dart emits, e.g. `List` for arrays, are qualified with
+   * it, see `FacadeConverter.getCoreName`.
+   */
+  private visitShadowedCoreNames(sourceFile: ts.SourceFile) {
+    let shadowed: string[] = [];
+    let add = (n: ts.Node) => {
+      if (!n || n.kind !== ts.SyntaxKind.Identifier) return;
+      let name = (<ts.Identifier>n).text;
+      // Renamed declarations and imports, e.g. private or prefixed ones, do not shadow anything.
+      if (ModuleTranspiler.DART_CORE_NAMES.indexOf(name) === -1 ||
+          this.fc.getRename(<ts.Identifier>n)) {
+        return;
+      }
+      if (shadowed.indexOf(name) === -1) shadowed.push(name);
+    };
+    sourceFile.statements.forEach((stmt) => {
+      if (this.hasFlag(stmt, ts.NodeFlags.Ambient)) return;
+      switch (stmt.kind) {
+        case ts.SyntaxKind.ImportDeclaration:
+          let clause = (<ts.ImportDeclaration>stmt).importClause;
+          if (!clause) break;
+          if (this.isShownDefaultImport(clause)) add(clause.name);
+          this.filterImports(this.getNamedImports(<ts.ImportDeclaration>stmt))
+              .forEach((e) => add(e.name));
+          break;
+        case ts.SyntaxKind.ClassDeclaration:
+        case ts.SyntaxKind.EnumDeclaration:
+        case ts.SyntaxKind.FunctionDeclaration:
+        case ts.SyntaxKind.InterfaceDeclaration:
+          add((<ts.DeclarationStatement>stmt).name);
+          break;
+        case ts.SyntaxKind.VariableStatement:
+          (<ts.VariableStatement>stmt).declarationList.declarations.forEach((d) => add(d.name));
+          break;
+        default:
+          break;
+      }
+    });
+    this.corePrefix = shadowed.length ? this.getUriPrefix('dart:core', sourceFile) : null;
+    this.fc.setShadowedCoreNames(shadowed, this.corePrefix);
+    if (!this.corePrefix) return;
+    // Importing dart:core explicitly disables its implicit import.
+    this.emit('import "dart:core" hide');
+    this.emit(shadowed.sort().join(', '));
+    this.emit(';');
+    this.emit(`import "dart:core" as ${this.corePrefix};`);
+  }
+
+  /** Emits the re-exports of imports exported by `export default x;`, see `visitDefaultExport`. */
+  private visitDefaultReExports(sourceFile: ts.SourceFile) {
+    sourceFile.statements.forEach((stmt) => {
+      if (stmt.kind !== ts.SyntaxKind.ExportAssignment) return;
+      let exportAssignment = <ts.ExportAssignment>stmt;
+      let decl = this.getDefaultExportedDeclaration(exportAssignment);
+      if (!decl || decl.getSourceFile() === sourceFile) return;
+      let alias = this.getTypeChecker().getSymbolAtLocation(exportAssignment.expression);
+      let importDecl = <ts.ImportDeclaration>this.getAncestor(
+          alias.declarations[0], ts.SyntaxKind.ImportDeclaration);
+      this.emit('export');
+      this.visitExternalModuleReferenceExpr(importDecl.moduleSpecifier);
+      this.emit('show');
+      this.emit(this.fc.getDefaultExportName(decl));
+      this.emit(';');
+    });
+  }
+
+  /**
+   * Returns the declaration exported by `export default x;` if `x` refers to a local declaration,
+   * or to a declaration imported by a named or default import, otherwise null.
+   */
+  private getDefaultExportedDeclaration(n: ts.ExportAssignment): ts.Declaration {
+    if (n.expression.kind !== ts.SyntaxKind.Identifier) return null;
+    let tc = this.getTypeChecker();
+    let symbol = tc.getSymbolAtLocation(n.expression);
+    let decl = symbol && symbol.declarations && symbol.declarations[0];
+    if (!decl) return null;
+    if (!(symbol.flags & ts.SymbolFlags.Alias)) {
+      return decl.getSourceFile() === n.getSourceFile() ? decl : null;
+    }
+    if (decl.kind !== ts.SyntaxKind.ImportSpecifier && decl.kind !== ts.SyntaxKind.ImportClause) {
+      return null;
+    }
+    let target = tc.getAliasedSymbol(symbol);
+    return target.declarations ? target.declarations[0] : null;
+  }
+
+  /** Whether the default import of `clause` is shown under its own name, i.e. not aliased. */
+  private isShownDefaultImport(clause: ts.ImportClause): boolean {
+    return clause.name &&
+        this.getDefaultImportName(clause.name) === this.fc.getDartName(clause.name);
+  }
+
+  /** Returns the Dart name of the declaration that the default import `name` refers to. */
+  private getDefaultImportName(name: ts.Identifier): string {
+    let tc = this.getTypeChecker();
+    let symbol = tc.getSymbolAtLocation(name);
+    let target = symbol && tc.getAliasedSymbol(symbol);
+    let decl = target && target.declarations && target.declarations[0];
+    return decl ? this.fc.getDefaultExportName(decl) : this.fc.getDartName(name);
   }
 
   private isEmptyImport(n: ts.ImportDeclaration): boolean {
     let bindings = n.importClause.namedBindings;
-    if (bindings.kind !== ts.SyntaxKind.NamedImports) return false;
+    if (!bindings || bindings.kind !== ts.SyntaxKind.NamedImports) return false;
     let elements = (<ts.NamedImports>bindings).elements;
     // An import list being empty *after* filtering is ok, but if it's empty in the code itself,
     // it's nonsensical code, so probably a programming error.
-    if (elements.length === 0) this.reportError(n, 'empty import list');
-    return elements.every(ModuleTranspiler.isIgnoredImport);
+    if (elements.length === 0) this.reportError(n, 'empty import list', ErrorCode.EmptyImportList);
+    return !n.importClause.name && elements.every((e) => this.fc.isIgnoredImport(e));
   }
 
-  private filterImports(ns: ts.ImportOrExportSpecifier[]) {
-    return ns.filter((e) => !ModuleTranspiler.isIgnoredImport(e));
+  /** Returns the imports to `show`, i.e. those that are neither ignored nor renamed. */
+  private filterImports(ns: ts.ImportSpecifier[]) {
+    return ns.filter((e) => !this.fc.isIgnoredImport(e) && !ModuleTranspiler.isRenamed(e));
   }
 
-  // For the Dart keyword list see
-  // https://www.dartlang.org/docs/dart-up-and-running/ch02.html#keywords
-  private static DART_RESERVED_WORDS =
-      ('assert break case catch class const continue default do else enum extends false final ' +
-       'finally for if in is new null rethrow return super switch this throw true try let void ' +
-       'while with')
-          .split(/ /);
+  /**
+   * Dart warns about unused imports, and translation drops some references, e.g. to facade
+   * functions such as `normalizeBlank`, or to types replaced by Dart types. Removes the imported
+   * names that the output outside of directives does not reference, prefixed imports whose prefix
+   * it does not reference, and imports that become empty. References are recorded as they are
+   * emitted, see `FacadeConverter.recordReference`.
+   */
+  private pruneImports() {
+    let output = this.getOutput();
+    let referenced: {[name: string]: boolean} = {};
+    this.fc.getReferences()
+        .filter((r) => !this.directives.some((d) => r.offset >= d.start && r.offset < d.end))
+        .forEach((r) => referenced[r.name] = true);
+
+    let importRegExp = /^(\s*import\s+"[^"]*"\s+)(show|as)\s+([\w$]+(?:\s*,\s*[\w$]+)*)\s*$/;
+    this.directives.forEach((d) => {
+      let directives = output.substring(d.start, d.end).split(';');
+      let rest = directives.pop();
+      let pruned = directives.map((directive) => {
+        if (directive.match(/^\s*import\s+"dart:core"\s+hide\s/)) {
+          // Only needed for references qualified with the dart:core prefix.
+          return referenced[this.corePrefix] ? directive + ';' : '';
+        }
+        let match = directive.match(importRegExp);
+        if (!match) return directive + ';';
+        let names = match[3].split(/\s*,\s*/).filter((name) => referenced[name]);
+        return names.length ? `${match[1]}${match[2]} ${names.join(', ')};` : '';
+      });
+      this.replaceOutput(d.start, d.end, pruned.join('') + rest);
+    });
+  }
 
   getLibraryName(nameForTest?: string) {
     let fileName = this.getRelativeFileName(nameForTest);
@@ -155,7 +794,7 @@ export default class ModuleTranspiler extends base.TranspilerBase {
     return parts.filter((p) => p.length > 0)
         .map((p) => p.replace(/[^\w.]/g, '_'))
         .map((p) => p.replace(/\.[jt]s$/g, ''))
-        .map((p) => ModuleTranspiler.DART_RESERVED_WORDS.indexOf(p) !== -1 ? '_' + p : p)
+        .map((p) => base.DART_RESERVED_WORDS.indexOf(p) !== -1 ? '_' + p : p)
         .join('.');
   }
 }
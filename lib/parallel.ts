@@ -0,0 +1,108 @@
+import * as child_process from 'child_process';
+import * as fs from 'fs';
+import {Diagnostic} from './diagnostic';
+import {Manifest} from './manifest';
+import {Transpiler, TranspilerOptions} from './main';
+
+/** The work of a single worker process, see `Transpiler.transpileInWorkers`. */
+export interface WorkerRequest {
+  options: TranspilerOptions;
+  /** All input files, as passed to `transpile`. */
+  fileNames: string[];
+  destination: string;
+  /** The files to translate and write, a subset of the normalized `fileNames`. */
+  partition: string[];
+  manifest: Manifest;
+}
+
+export interface WorkerResult {
+  written: string[];
+  diagnostics: Diagnostic[];
+  /** See `Transpiler.recordImport`. */
+  importedUris: string[];
+  manifest?: Manifest;
+  /** The message of an unexpected error, i.e. not a problem with the input files. */
+  error?: string;
+}
+
+/**
+ * Splits `fileNames` into at most `count` non-empty partitions of roughly equal total file size.
+ * The result only depends on the file names and sizes, not on their order.
+ */
+export function partitionFiles(fileNames: string[], count: number): string[][] {
+  let size = (f: string) => fs.existsSync(f) ? fs.statSync(f).size : 0;
+  let files = fileNames.map((f) => ({fileName: f, size: size(f)})).sort((a, b) => {
+    if (a.size !== b.size) return b.size - a.size;
+    return a.fileName < b.fileName ? -1 : a.fileName > b.fileName ? 1 : 0;
+  });
+  let partitions: {fileNames: string[], size: number}[] = [];
+  for (let i = 0; i < Math.min(count, files.length); i++) partitions.push({fileNames: [], size: 0});
+  // Assign the largest files first, each to the currently smallest partition.
+  files.forEach((f) => {
+    let smallest = partitions.reduce((min, p) => p.size < min.size ? p : min);
+    smallest.fileNames.push(f.fileName);
+    smallest.size += f.size;
+  });
+  return partitions.map((p) => p.fileNames);
+}
+
+/**
+ * Runs each request in a separate worker process, and calls back with the results in the order of
+ * `requests` once all workers have finished.
+ */
+export function runWorkers(requests: WorkerRequest[], callback: (results: WorkerResult[]) => void) {
+  if (requests.length === 0) {
+    callback([]);
+    return;
+  }
+  let results: WorkerResult[] = [];
+  let pending = requests.length;
+  let finish = (i: number, result: WorkerResult) => {
+    if (results[i]) return;
+    results[i] = result;
+    if (--pending === 0) callback(results);
+  };
+  requests.forEach((request, i) => {
+    let worker = child_process.fork(__filename);
+    worker.on('message', (result: WorkerResult) => {
+      finish(i, result);
+      // Lets the worker exit.
+      worker.disconnect();
+    });
+    worker.on(
+        'error', (e: Error) =>
+                     finish(i, {written: [], diagnostics: [], importedUris: [], error: e.message}));
+    worker.on('exit', (code: number) => {
+      finish(i, {
+        written: [],
+        diagnostics: [],
+        importedUris: [],
+        error: `worker exited with code ${code}`
+      });
+    });
+    worker.send(request);
+  });
+}
+
+function runWorker(request: WorkerRequest): WorkerResult {
+  let transpiler = new Transpiler(request.options);
+  let result:
+      WorkerResult = {written: [], diagnostics: [], importedUris: [], manifest: request.manifest};
+  try {
+    result.written = transpiler.transpilePartition(
+        request.fileNames, request.destination, request.partition, request.manifest);
+    result.diagnostics = transpiler.getDiagnostics();
+    result.importedUris = transpiler.getImportedUris();
+  } catch (e) {
+    if (e.name !== 'TS2DartError') {
+      return {written: [], diagnostics: [], importedUris: [], error: e.stack};
+    }
+    result.diagnostics = e.diagnostics;
+  }
+  return result;
+}
+
+// Worker process entry point.
+if (require.main === module) {
+  process.on('message', (request: WorkerRequest) => process.send(runWorker(request)));
+}
@@ -0,0 +1,31 @@
+import * as ts from 'typescript';
+import {TranspilerBase} from './base';
+import {Transpiler} from './main';
+
+/**
+ * A lightweight plugin, for translations that do not warrant a `TranspilerBase` subclass.
+ */
+export interface VisitorHook {
+  /**
+   * Translates `node` and returns true, or returns false to leave it to the following transpilers.
+   * @param context Provides `emit`, `visit`, `reportError`, `getTypeChecker` etc.
+   */
+  visitNode(node: ts.Node, context: TranspilerBase): boolean;
+}
+
+/** A `TranspilerBase` subclass, instantiated for each `Transpiler`. */
+export type TranspilerClass = new (t: Transpiler) => TranspilerBase;
+
+export type Plugin = TranspilerClass | VisitorHook;
+
+/** Adapts a `VisitorHook` to the `TranspilerBase` interface. */
+class HookTranspiler extends TranspilerBase {
+  constructor(transpiler: Transpiler, private hook: VisitorHook) { super(transpiler); }
+
+  visitNode(node: ts.Node): boolean { return this.hook.visitNode(node, this); }
+}
+
+export function createPluginTranspiler(transpiler: Transpiler, plugin: Plugin): TranspilerBase {
+  if (typeof plugin === 'function') return new (<TranspilerClass>plugin)(transpiler);
+  return new HookTranspiler(transpiler, <VisitorHook>plugin);
+}
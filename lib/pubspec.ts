@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+
+/** The dependencies of translated files. */
+export interface Dependencies {
+  /** Names of imported packages, e.g. `foo` for `package:foo/bar.dart`. */
+  packages: string[];
+  /** Imported Dart SDK libraries, e.g. `dart:async`. */
+  dartLibraries: string[];
+}
+
+/** Extracts the dependencies from a list of imported Dart URIs. */
+export function collectDependencies(importUris: string[]): Dependencies {
+  let packages: {[name: string]: boolean} = {};
+  let dartLibraries: {[name: string]: boolean} = {};
+  importUris.forEach((uri) => {
+    let match = uri.match(/^package:([^\/]+)\//);
+    if (match) packages[match[1]] = true;
+    if (uri.match(/^dart:/)) dartLibraries[uri] = true;
+  });
+  return {packages: Object.keys(packages).sort(), dartLibraries: Object.keys(dartLibraries).sort()};
+}
+
+interface Pubspec {
+  name?: string;
+  /** Version constraints, or descriptions of e.g. git or path dependencies. */
+  dependencies?: {[packageName: string]: any};
+}
+
+/**
+ * Adds `packages` to the `dependencies` of the pubspec.yaml file `fileName`, creating the file if
+ * it does not exist. The package's own name is skipped. Existing dependencies are kept, unless
+ * `versions` has a constraint for them, new ones default to `any`.
+ *
+ * Only the lines of added or changed dependencies are written, the rest of the file, including
+ * comments, is kept as is. A `dependencies` section in flow style (`{...}`) cannot be edited by line
+ * and is rewritten as a whole.
+ * @return Whether the file was written.
+ */
+export function updatePubspec(
+    fileName: string, packages: string[], versions: {[packageName: string]: string} = {}): boolean {
+  let text = fs.existsSync(fileName) ? fs.readFileSync(fileName, 'utf-8') : '';
+  let pubspec: Pubspec;
+  try {
+    pubspec = yaml.safeLoad(text);
+  } catch (e) {
+    throw new Error(`Cannot parse ${fileName}: ${e.message}`);
+  }
+  pubspec = pubspec || {};
+  let dependencies = pubspec.dependencies || {};
+  let changes: {[packageName: string]: string} = {};
+  packages.filter((p) => p !== pubspec.name).forEach((p) => {
+    let version = versions.hasOwnProperty(p) ? versions[p] : dependencies[p] || 'any';
+    if (dependencies[p] !== version) changes[p] = version;
+  });
+  if (Object.keys(changes).length === 0) return false;
+  let updated = setDependencyLines(text, changes);
+  if (updated === null) {
+    Object.keys(changes).forEach((p) => dependencies[p] = changes[p]);
+    pubspec.dependencies = dependencies;
+    updated = yaml.safeDump(pubspec);
+  }
+  fs.writeFileSync(fileName, updated);
+  return true;
+}
+
+/**
+ * Sets the `changes` in the block style `dependencies` section of the pubspec `text`, appending the
+ * section if there is none. Returns null if the section is in flow style.
+ */
+function setDependencyLines(text: string, changes: {[packageName: string]: string}): string {
+  let lines = text === '' ? [] : text.replace(/\n$/, '').split('\n');
+  let header = -1;
+  for (let i = 0; i < lines.length && header === -1; i++) {
+    if (lines[i].match(/^dependencies\s*:/)) header = i;
+  }
+  if (header !== -1 && !lines[header].match(/^dependencies\s*:\s*(#.*)?$/)) return null;
+  if (header === -1) {
+    lines.push('dependencies:');
+    header = lines.length - 1;
+  }
+  // The section ends before the next line that is neither indented, blank nor a comment.
+  let end = header + 1;
+  let indent: string = null;
+  for (; end < lines.length && !lines[end].match(/^[^\s#]/); end++) {
+    let match = lines[end].match(/^(\s+)[^\s#]/);
+    if (match && indent === null) indent = match[1];
+  }
+  indent = indent || '  ';
+  // New dependencies go after the last entry, before trailing blank lines and comments.
+  let insertAt = end;
+  while (insertAt > header + 1 && !lines[insertAt - 1].match(/^\s+[^\s#]/)) insertAt--;
+  let indentation = (line: string) => line.trim() ? line.match(/^\s*/)[0].length : Infinity;
+  Object.keys(changes).sort().forEach((p) => {
+    let line = `${indent}${p}: ${yaml.safeDump(changes[p]).trim()}`;
+    for (let i = header + 1; i < insertAt; i++) {
+      let match = lines[i].match(/^(\s*)([^\s:#]+)\s*:/);
+      if (!match || match[1] !== indent || match[2] !== p) continue;
+      // Replace the entry, including the nested lines of e.g. a git dependency.
+      let next = i + 1;
+      while (next < insertAt && indentation(lines[next]) > indent.length) next++;
+      while (next > i + 1 && !lines[next - 1].trim()) next--;
+      lines.splice(i, next - i, line);
+      insertAt -= next - i - 1;
+      return;
+    }
+    lines.splice(insertAt++, 0, line);
+  });
+  return lines.join('\n') + '\n';
+}
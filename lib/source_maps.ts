@@ -0,0 +1,92 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {SourceMapConsumer} from 'source-map';
+
+/** Matches source map references, i.e. `//# sourceMappingURL=...` comments. */
+export const SOURCE_MAPPING_URL = /^\/\/[#@]\s*sourceMappingURL=(\S+)\s*$/m;
+
+/**
+ * Reads the source map referenced by `url`, either an inline data URL or a path relative to
+ * `dir`.
+ * @return The source map in JSON format, or null if the file does not exist.
+ */
+export function readSourceMap(url: string, dir: string): string {
+  let dataUrl = url.match(/^data:application\/json;(?:charset=[\w-]+;)?base64,(.*)$/);
+  if (dataUrl) return new Buffer(dataUrl[1], 'base64').toString();
+  let mapFile = path.resolve(dir, url);
+  if (!fs.existsSync(mapFile)) return null;
+  return fs.readFileSync(mapFile, 'utf-8');
+}
+
+/** A location pattern in Dart tool output, and how to format a mapped location. */
+interface LocationFormat {
+  pattern: RegExp;
+  format: (file: string, line: number, column: number) => string;
+}
+
+const DART_LOCATIONS: LocationFormat[] = [
+  {
+    // The VM, stack traces and most tools: `file.dart:3:5`, optionally as a `file://` URL.
+    pattern: /([^\s()'"|,]+\.dart):(\d+):(\d+)/g,
+    format: (file, line, column) => `${file}:${line}:${column}`,
+  },
+  {
+    // dartanalyzer: `(file.dart, line 3, col 5)`.
+    pattern: /([^\s()'"|,]+\.dart), line (\d+), col (\d+)/g,
+    format: (file, line, column) => `${file}, line ${line}, col ${column}`,
+  },
+  {
+    // dartanalyzer --format=machine: `ERROR|...|file.dart|3|5|...`.
+    pattern: /([^\s()'"|,]+\.dart)\|(\d+)\|(\d+)/g,
+    format: (file, line, column) => `${file}|${line}|${column}`,
+  },
+];
+
+/**
+ * Rewrites locations in generated Dart code, as reported by Dart tools, to the corresponding
+ * TypeScript locations, using the source maps referenced from the Dart files. Mapped file names are
+ * relative to the current working directory, like the Dart locations usually are.
+ */
+export class DartErrorMapper {
+  private consumers: {[dartFile: string]: SourceMapConsumer} = {};
+  /** The directories that the sources of each Dart file's source map are relative to. */
+  private mapDirs: {[dartFile: string]: string} = {};
+
+  /** Rewrites all mappable locations in a line of output. Other text is left unchanged. */
+  mapLine(line: string): string {
+    DART_LOCATIONS.forEach((location) => {
+      line = line.replace(location.pattern, (match, file, lineNumber, column) => {
+        let dartFile = file.replace(/^file:\/\//, '');
+        let consumer = this.getConsumer(dartFile);
+        if (!consumer) return match;
+        // Dart tools report 1-based columns, source maps use 0-based ones.
+        let original =
+            consumer.originalPositionFor({line: Number(lineNumber), column: Number(column) - 1});
+        if (!original.source) return match;
+        // Sources include the map's `sourceRoot`, and are relative to the map itself.
+        let source =
+            path.relative(process.cwd(), path.resolve(this.mapDirs[dartFile], original.source));
+        return location.format(source.replace(/\\/g, '/'), original.line, original.column + 1);
+      });
+    });
+    return line;
+  }
+
+  private getConsumer(dartFile: string): SourceMapConsumer {
+    if (!this.consumers.hasOwnProperty(dartFile)) {
+      this.consumers[dartFile] = null;
+      if (!fs.existsSync(dartFile)) return null;
+      let match = fs.readFileSync(dartFile, 'utf-8').match(SOURCE_MAPPING_URL);
+      let dir = path.dirname(dartFile);
+      let sourceMap = match && readSourceMap(match[1], dir);
+      if (match && !match[1].match(/^data:/)) dir = path.dirname(path.resolve(dir, match[1]));
+      this.mapDirs[dartFile] = dir;
+      try {
+        if (sourceMap) this.consumers[dartFile] = new SourceMapConsumer(sourceMap);
+      } catch (e) {
+        // Leave locations in files with invalid source maps unchanged.
+      }
+    }
+    return this.consumers[dartFile];
+  }
+}
@@ -0,0 +1,75 @@
+import * as path from 'path';
+import * as stream from 'stream';
+import {createError} from './diagnostic';
+import {Transpiler, TranspilerOptions} from './main';
+
+/** The subset of vinyl file objects, as used by gulp, that ts2dart relies on. */
+export interface VinylFile {
+  cwd?: string;
+  base?: string;
+  path: string;
+  contents: Buffer;
+  clone?(): VinylFile;
+}
+
+function createFile(input: VinylFile, filePath: string, contents: string): VinylFile {
+  let output: VinylFile =
+      input.clone ? input.clone() : {cwd: input.cwd, base: input.base, path: null, contents: null};
+  output.path = filePath;
+  output.contents = new Buffer(contents);
+  return output;
+}
+
+/** Collects TypeScript files, and translates them when the input ends. */
+class TranspilerStream extends stream.Transform {
+  private inputs: VinylFile[] = [];
+
+  constructor(private options: TranspilerOptions) { super({objectMode: true}); }
+
+  _transform(file: VinylFile, encoding: string, callback: Function) {
+    if (!file.contents || !file.path.match(/\.[jt]s$/)) {
+      callback(null, file);
+      return;
+    }
+    this.inputs.push(file);
+    callback();
+  }
+
+  _flush(callback: Function) {
+    let transpiler = new Transpiler(this.options);
+    let sources: {[fileName: string]: string} = {};
+    this.inputs.forEach((f) => sources[f.path.replace(/\\/g, '/')] = f.contents.toString());
+    try {
+      let {files, diagnostics} = transpiler.translateSources(sources, true);
+      if (!this.options.lenient && diagnostics.some((d) => d.severity === 'error')) {
+        callback(createError(diagnostics));
+        return;
+      }
+      let root = this.options.basePath || process.cwd();
+      this.inputs.forEach((input) => {
+        let translated = files[input.path.replace(/\\/g, '/')];
+        if (!translated) return;  // .d.ts files.
+        let outputPath = path.resolve(transpiler.getOutputPath(path.resolve(input.path), root));
+        this.push(createFile(input, outputPath, translated.code));
+        if (this.options.externalSourceMap) {
+          this.push(createFile(input, outputPath + '.map', translated.sourceMap));
+        }
+      });
+    } catch (e) {
+      callback(e);
+      return;
+    }
+    callback();
+  }
+}
+
+/**
+ * Creates a transform stream for build tools such as gulp. It consumes vinyl-like file objects
+ * and emits the translated `.dart` files, and `.dart.map` files if `externalSourceMap` is set.
+ * All TypeScript files are translated as a single program once the input ends, other files are
+ * passed through. Files not in the stream, e.g. typings, are read from disk. If translation
+ * fails, the stream emits an error carrying all diagnostics.
+ */
+export function createStream(options: TranspilerOptions = {}): stream.Transform {
+  return new TranspilerStream(options);
+}
@@ -12,7 +12,8 @@ export default class TypeTranspiler extends base.TranspilerBase {
         let indexType = this.maybeDestructureIndexType(<ts.TypeLiteralNode>node);
         if (indexType) {
           // This is effectively a Map.
-          this.emit('Map <');
+          this.emit(this.fc.getCoreName('Map'));
+          this.emit('<');
           this.visit(indexType[0]);
           this.emit(',');
           this.visit(indexType[1]);
@@ -53,7 +54,7 @@ export default class TypeTranspiler extends base.TranspilerBase {
         }
         break;
       case ts.SyntaxKind.ArrayType:
-        this.emit('List');
+        this.emit(this.fc.getCoreName('List'));
         this.emit('<');
         this.visit((<ts.ArrayTypeNode>node).elementType);
         this.emit('>');
@@ -65,6 +66,11 @@ export default class TypeTranspiler extends base.TranspilerBase {
         break;
       case ts.SyntaxKind.QualifiedName:
         let first = <ts.QualifiedName>node;
+        let rename = this.fc.getRename(first.right);
+        if (rename !== null) {
+          this.fc.emitReference(rename);
+          break;
+        }
         this.visit(first.left);
         this.emit('.');
         this.visit(first.right);
@@ -77,7 +83,7 @@ export default class TypeTranspiler extends base.TranspilerBase {
         this.emit('num');
         break;
       case ts.SyntaxKind.StringKeyword:
-        this.emit('String');
+        this.emit(this.fc.getCoreName('String'));
         break;
       case ts.SyntaxKind.VoidKeyword:
         this.emit('void');
@@ -1,5 +1,6 @@
 /// <reference path="../typings/mocha/mocha.d.ts"/>
-import {expectTranslate, expectErroneousCode} from './test_support';
+import chai = require('chai');
+import {expectTranslate, expectErroneousCode, expectWarnings, translateSources} from './test_support';
 
 describe('variables', () => {
   it('should print variable declaration with initializer',
@@ -88,8 +89,9 @@ class X {
           .to.throw('public members must not be prefixed with "_"');
     });
     it('does not support protected', () => {
-      expectErroneousCode('class X { protected x; }')
-          .to.throw('protected declarations are unsupported');
+      expectWarnings('class X { protected x; }').to.deep.equal([
+        'protected declarations are unsupported',
+      ]);
     });
     it('supports static fields', () => {
       expectTranslate('class X { static x: number = 42; }').to.equal(`class X {
@@ -225,3 +227,59 @@ describe('enums', () => {
     expectErroneousCode('const enum Color { Red }').to.throw('const enums are not supported');
   });
 });
+
+describe('reserved words', () => {
+  it('escapes declarations and references', () => {
+    expectTranslate(`class X { is: number; rethrow(assert: number) { return this.is + assert; } }
+function operator(external: X) { return external.rethrow(external.is); }
+enum E { part }
+var f = E.part;`)
+        .to.equal(`class X {
+  num is$;
+  rethrow$(num assert$) {
+    return this.is$ + assert$;
+  }
+}
+
+operator$(X external$) {
+  return external$.rethrow$(external$.is$);
+}
+
+enum E { part$ }
+var f = E.part$;`);
+  });
+  it('escapes var, but not let', () => {
+    expectTranslate(`class A { var: number; let: number; }
+function f(o: {var?: number}) {}
+var x = f({var: new A().var});`)
+        .to.equal(`class A {
+  num var$;
+  num let;
+}
+
+f(dynamic o) {}
+var x = f(var$: new A().var$);`);
+  });
+  it('escapes named parameters, but not map keys', () => {
+    expectTranslate(`function f({is}: {is?: number} = {}) {}
+var factory = f({is: 1});
+var m = {is: 1, factory};`)
+        .to.equal(`f({is$}) {}
+var factory$ = f(is$: 1);
+var m = {"is": 1, "factory": factory$};`);
+  });
+  it('does not escape references to declarations in typings', () => {
+    let results = translateSources({
+      'angular2/main.ts': 'var p = new Deferred<number>();\nvar x = p.part(f({external: 1}));',
+      'angular2/typings/p.d.ts': 'declare class Deferred<T> { part(x: any): Deferred<T>; }\n' +
+          'declare function f(o: {external?: number});',
+    });
+    chai.expect(results['angular2/main.ts'])
+        .to.equal('var p = new Deferred<num>();\nvar x = p.part(f(external: 1));\n');
+  });
+  it('reports declarations instead of escaping them', () => {
+    expectErroneousCode('var is = 1; var x = is;', {
+      reportReservedWords: true
+    }).to.throw('is is a reserved word in Dart');
+  });
+});
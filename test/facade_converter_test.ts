@@ -1,6 +1,8 @@
 /// <reference path="../typings/mocha/mocha.d.ts"/>
 import * as fs from 'fs';
-import {expectTranslate, FAKE_MAIN, translateSource} from './test_support';
+import * as path from 'path';
+import {FacadeConfig} from '../lib/main';
+import {expectTranslate, expectWarnings, FAKE_MAIN, makeTempDir, translateSource} from './test_support';
 import chai = require('chai');
 
 let es6RuntimeDeclarations = `
@@ -64,6 +66,40 @@ function expectWithTypes(str: string) {
   return expectTranslate(getSources(str), COMPILE_OPTS);
 }
 
+const FACADE_CONFIG: FacadeConfig = {
+  'dict/dict': {
+    types: {'Dict': 'Map'},
+    calls: {
+      'Dict': 'createMap',
+      'Dict.put': '$0[$1] = $2',
+      'Dict.reduce': '$0.fold($2, $1)',
+      'Dict.keyList': 'keys',
+      'newDict': 'createMap',
+    },
+    properties: {'Dict.count': 'length'},
+    dropNew: ['Dict'],
+    imports: ['package:dict/dict.dart'],
+  },
+};
+
+function expectWithFacadeConfig(str: string, facadeConfig: string | FacadeConfig = FACADE_CONFIG) {
+  let sources = getSources(str);
+  sources['some/path/to/typings/dict/dict.d.ts'] = `
+      declare class Dict<V> {
+        put(k: string, v: V): void;
+        reduce<T>(fn: (acc: T, v: V) => T, init?: T): T;
+        keyList(): string[];
+        count: number;
+      }
+      declare function newDict(): Dict<any>;`;
+  return expectTranslate(sources, {
+    translateBuiltins: true,
+    failFast: true,
+    typingsRoot: 'some/path/to/typings/',
+    facadeConfig: facadeConfig,
+  });
+}
+
 function expectErroneousWithType(str: string) {
   return chai.expect(() => translateSource(getSources(str), COMPILE_OPTS));
 }
@@ -103,6 +139,13 @@ ByteBuffer buff;`);
 var y = x is Promise;`);
     });
 
+    it('does not import libraries for matching names from different files', () => {
+      expectWithTypes('import {Promise} from "other/file"; var y: Promise;')
+          .to.equal(`import "package:other/file.dart" show Promise;
+
+Promise y;`);
+    });
+
     it('does not substitute all identifiers',
        () => { expectWithTypes('let Promise = 1;').to.equal(`var Promise = 1;`); });
   });
@@ -166,8 +209,11 @@ num y = x.fold(0, (a, b) => a + b);`);
 num y = x.fold(null, (a, b) => a + b);`);
     });
 
-    it('translates string methoids',
-       () => { expectErroneousWithType(`var x = 'asd'.substr(0, 1);`).to.throw(/use substring/); });
+    it('translates string methoids', () => {
+      expectWarnings(getSources(`var x = 'asd'.substr(0, 1);`), COMPILE_OPTS).to.deep.equal([
+        'substr is unsupported, use substring (but beware of the different semantics!)',
+      ]);
+    });
 
     it('translates map operations to dartisms', () => {
       expectWithTypes('function f() { var x = new Map<string, string>(); x.set("k", "v"); }')
@@ -353,16 +399,12 @@ const x = const Person();`);
               'import {CONST_EXPR} from "angular2/src/facade/lang";\n' +
               'import {Map} from "angular2/src/facade/collection";\n' +
               'const x = CONST_EXPR(new Map());')
-              .to.equal(`import "package:angular2/src/facade/collection.dart" show Map;
-
-const x = const {};`);
+              .to.equal('const x = const {};');
           expectWithTypes(
               'import {CONST_EXPR} from "angular2/src/facade/lang";\n' +
               'import {Map} from "angular2/src/facade/collection";\n' +
               'const x = CONST_EXPR(new Map<number, string>());')
-              .to.equal(`import "package:angular2/src/facade/collection.dart" show Map;
-
-const x = const <num, String>{};`);
+              .to.equal('const x = const <num, String>{};');
 
           expectWithTypes(`
             import {CONST_EXPR} from "angular2/src/facade/lang";
@@ -443,4 +485,66 @@ var y = X.get({"a": 1}, "a");`);
       expectWithTypes('["a", "b"].map((x) => x);').to.equal('["a", "b"].map((x) => x).toList();');
     });
   });
+
+  describe('facade configuration', () => {
+    it('renames types', () => {
+      expectWithFacadeConfig('var d: Dict<number>;').to.equal(`import "package:dict/dict.dart";
+
+Map<num> d;`);
+    });
+    it('translates calls', () => {
+      expectWithFacadeConfig('function f(d: Dict<number>) { d.put("a", 1); d.keyList(); }')
+          .to.equal(`import "package:dict/dict.dart";
+
+f(Map<num> d) {
+  d["a"] = 1;
+  d.keys();
+}`);
+      expectWithFacadeConfig('var x = newDict();').to.equal(`import "package:dict/dict.dart";
+
+var x = createMap();`);
+    });
+    it('reorders arguments using templates', () => {
+      expectWithFacadeConfig('function f(d: Dict<number>) { d.reduce((a, v) => a + v, 0); }')
+          .to.equal(`import "package:dict/dict.dart";
+
+f(Map<num> d) {
+  d.fold(0, (a, v) => a + v);
+}`);
+      expectWithFacadeConfig('function f(d: Dict<number>) { d.reduce((a, v) => a + v); }')
+          .to.equal(`import "package:dict/dict.dart";
+
+f(Map<num> d) {
+  d.fold(null, (a, v) => a + v);
+}`);
+    });
+    it('translates properties', () => {
+      expectWithFacadeConfig('function f(d: Dict<number>) { return d.count; }')
+          .to.equal(`import "package:dict/dict.dart";
+
+f(Map<num> d) {
+  return d.length;
+}`);
+    });
+    it('drops new', () => {
+      expectWithFacadeConfig('var d = new Dict<number>();')
+          .to.equal(`import "package:dict/dict.dart";
+
+var d = createMap();`);
+    });
+    it('only imports for used declarations',
+       () => { expectWithFacadeConfig('var x = 1;').to.equal('var x = 1;'); });
+    it('reads configuration files', () => {
+      let dir = makeTempDir();
+      let yamlFile = path.join(dir, 'facades.yaml');
+      fs.writeFileSync(yamlFile, 'dict/dict:\n  types:\n    Dict: HashMap\n');
+      expectWithFacadeConfig('var d: Dict<number>;', yamlFile).to.equal('HashMap<num> d;');
+      let jsonFile = path.join(dir, 'facades.json');
+      fs.writeFileSync(jsonFile, JSON.stringify({'dict/dict': {types: {'Dict': 'HashMap'}}}));
+      expectWithFacadeConfig('var d: Dict<number>;', jsonFile).to.equal('HashMap<num> d;');
+      fs.writeFileSync(jsonFile, JSON.stringify({'dict/dict': {renames: {}}}));
+      chai.expect(() => expectWithFacadeConfig('var d;', jsonFile))
+          .to.throw(/Unknown key "renames" for module dict\/dict/);
+    });
+  });
 });
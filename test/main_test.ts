@@ -2,11 +2,18 @@
 /// <reference path="../typings/mocha/mocha.d.ts"/>
 /// <reference path="../typings/source-map/source-map.d.ts"/>
 import chai = require('chai');
+import fs = require('fs');
+import path = require('path');
 import main = require('../lib/main');
+import {SourceMapConsumer, SourceMapGenerator} from 'source-map';
 
-import {expectTranslate, expectErroneousCode} from './test_support';
+import {FAKE_MAIN, expectTranslate, expectErroneousCode, parseFiles} from './test_support';
+import {makeTempDir, translateSource} from './test_support';
 
 describe('main transpiler functionality', () => {
+  /** The translation of `import B from "./b"; var b = new B();` after renaming the class to `C`. */
+  const RENAMED_IMPORT = 'import "b.dart" as b_;\n\nvar b = new b_.C();\n';
+
   describe('comments', () => {
     it('keeps leading comments', () => {
       expectTranslate(`
@@ -103,6 +110,74 @@ class A {
       chai.expect(() => expectTranslate({'/a/b/c.ts': 'delete x["y"];'}, {basePath: '/a'}))
           .to.throw(/^b\/c.ts:1/);
     });
+    it('attaches structured diagnostics to errors', () => {
+      let error: main.TS2DartError;
+      try {
+        translateSource('function f(x) {\n  delete x.z;\n}', {failFast: false});
+      } catch (e) {
+        error = e;
+      }
+      chai.expect(error.name).to.equal('TS2DartError');
+      chai.expect(error.diagnostics).to.deep.equal([{
+        file: FAKE_MAIN,
+        line: 2,
+        column: 3,
+        endLine: 2,
+        endColumn: 13,
+        severity: 'error',
+        code: 'TS2D1002',
+        message: 'delete operator is unsupported',
+        kind: 'DeleteExpression',
+      }]);
+    });
+    it('reports warnings without failing', () => {
+      let transpiler = new main.Transpiler();
+      let results = transpiler.translateProgram(parseFiles({'a.ts': 'var x = /a/;'}));
+      chai.expect(results['a.ts']).to.equal('var x = new RegExp(r\'a\');\n');
+      chai.expect(transpiler.getDiagnostics().map((d) => [d.severity, d.code])).to.deep.equal([
+        ['warning', 'TS2D1005'],
+      ]);
+    });
+    it('reports problems with configured severities', () => {
+      expectErroneousCode('var x = /a/;', {severities: {'TS2D1005': 'error'}}).to.throw(/TS2D1005/);
+      let transpiler = new main.Transpiler({lenient: true, severities: {'TS2D1002': 'warning'}});
+      transpiler.translateProgram(parseFiles({'a.ts': 'delete x.y;'}));
+      chai.expect(transpiler.getDiagnostics().map((d) => [d.severity, d.code])).to.deep.equal([
+        ['warning', 'TS2D1002'],
+      ]);
+    });
+    it('ignores problems that are turned off', () => {
+      expectTranslate('var x = /a/;', {
+        severities: {'TS2D1005': 'off'}
+      }).to.equal('var x = new RegExp(r\'a\');');
+    });
+    it('honors ts2dart-disable-next-line comments', () => {
+      expectTranslate('// ts2dart-disable-next-line TS2D1005\nvar x = /a/;')
+          .to.equal('// ts2dart-disable-next-line TS2D1005\nvar x = new RegExp(r\'a\');');
+      expectTranslate('// ts2dart-disable-next-line\nvar x = /a/;')
+          .to.equal('// ts2dart-disable-next-line\nvar x = new RegExp(r\'a\');');
+      expectErroneousCode('// ts2dart-disable-next-line TS2D1005\ndelete x.y;')
+          .to.throw(/TS2D1002: delete operator is unsupported/);
+      expectErroneousCode('// ts2dart-disable-next-line TS2D1002\n\ndelete x.y;')
+          .to.throw(/TS2D1002/);
+    });
+    it('emits placeholders for unsupported code that is not an error', () => {
+      let source = 'function f(x) {\n  // ts2dart-disable-next-line\n  delete x.y;\n  return x;\n}';
+      chai.expect(translateSource(source))
+          .to.equal(
+              'f(x) {\n' +
+              '  // ts2dart-disable-next-line\n' +
+              '  /* TS2DART UNSUPPORTED: DeleteExpression delete x.y */ ' +
+              'throw new UnimplementedError();\n' +
+              '  return x;\n' +
+              '}\n');
+      let transpiler = new main.Transpiler({severities: {'TS2D1002': 'warning'}});
+      chai.expect(transpiler.translateProgram(parseFiles({'a.ts': 'var y = delete x.y;'}))['a.ts'])
+          .to.equal(
+              'var y = /* TS2DART UNSUPPORTED: DeleteExpression delete x.y */ ' +
+              '(throw new UnimplementedError());\n');
+      chai.expect(transpiler.getDiagnostics().map((d) => d.severity)).to.deep.equal(['warning']);
+    });
     it('reports errors across multiple files', () => {
       expectErroneousCode({'a.ts': 'delete x["y"];', 'b.ts': 'delete x["y"];'}, {
         failFast: false
@@ -110,6 +185,497 @@ class A {
     });
   });
 
+  describe('lenient mode', () => {
+    it('emits placeholders for unsupported code', () => {
+      let transpiler = new main.Transpiler({lenient: true});
+      let results = transpiler.translateProgram(
+          parseFiles({'a.ts': 'function f(x) {\n  delete x.y;\n  return typeof x;\n}'}));
+      chai.expect(results['a.ts'])
+          .to.equal(
+              'f(x) {\n' +
+              '  /* TS2DART UNSUPPORTED: DeleteExpression delete x.y */ ' +
+              'throw new UnimplementedError();\n' +
+              '  return /* TS2DART UNSUPPORTED: TypeOfExpression typeof x */ ' +
+              '(throw new UnimplementedError());\n' +
+              '}\n');
+      chai.expect(transpiler.getDiagnostics().map((d) => d.code)).to.deep.equal([
+        'TS2D1002',
+        'TS2D1004',
+      ]);
+    });
+    it('replaces unsupported expressions with throws', () => {
+      let transpiler = new main.Transpiler({lenient: true});
+      let results = transpiler.translateProgram(
+          parseFiles({'a.ts': 'var y = typeof x;\nvar z = f(void 0);'}));
+      chai.expect(results['a.ts'])
+          .to.equal(
+              'var y = /* TS2DART UNSUPPORTED: TypeOfExpression typeof x */ ' +
+              '(throw new UnimplementedError());\n' +
+              'var z = f(\n' +
+              '    /* TS2DART UNSUPPORTED: VoidExpression void 0 */ ' +
+              '(throw new UnimplementedError()));\n');
+    });
+    it('replaces unsupported statements with throws', () => {
+      let transpiler = new main.Transpiler({lenient: true});
+      let results =
+          transpiler.translateProgram(parseFiles({'a.ts': 'function f(x) { with (x) {} }'}));
+      chai.expect(results['a.ts'])
+          .to.equal(
+              'f(x) {\n' +
+              '  /* TS2DART UNSUPPORTED: WithStatement with (x) {} */ ' +
+              'throw new UnimplementedError();\n' +
+              '}\n');
+    });
+    it('translates all files', () => {
+      let transpiler = new main.Transpiler({lenient: true});
+      let results =
+          transpiler.translateProgram(parseFiles({'a.ts': 'var x = /a/;', 'b.ts': 'var y = 1;'}));
+      chai.expect(results['a.ts']).to.equal('var x = new RegExp(r\'a\');\n');
+      chai.expect(results['b.ts']).to.equal('var y = 1;\n');
+      chai.expect(transpiler.getDiagnostics().map((d) => d.file)).to.deep.equal(['a.ts']);
+    });
+  });
+
+  describe('source maps', () => {
+    let readInlineSourceMap = (code: string) => {
+      let match = code.match(/\/\/# sourceMappingURL=data:application\/json;base64,(.*)\n$/);
+      return new SourceMapConsumer(new Buffer(match[1], 'base64').toString());
+    };
+
+    it('maps positions in the formatted output', () => {
+      let transpiler = new main.Transpiler({generateSourceMap: true});
+      let code = transpiler.translateProgram(
+          parseFiles({'a.ts': 'function f() {\n  return 1 + 2;\n}'}))['a.ts'];
+      chai.expect(code).to.match(/^f\(\) {\n  return 1 \+ 2;\n}\n\n\/\/# sourceMappingURL=/);
+      let consumer = readInlineSourceMap(code);
+      chai.expect(consumer.originalPositionFor({line: 2, column: 2}))
+          .to.deep.equal({source: 'a.ts', line: 2, column: 2, name: null});
+      chai.expect(consumer.originalPositionFor({line: 2, column: 13}))
+          .to.deep.equal({source: 'a.ts', line: 2, column: 13, name: null});
+    });
+    it('writes external source map files', () => {
+      let dir = makeTempDir({'a.ts': 'var a = 1;'});
+      new main.Transpiler({basePath: dir, externalSourceMap: true})
+          .transpile([path.join(dir, 'a.ts')], dir);
+      chai.expect(fs.readFileSync(path.join(dir, 'a.dart'), 'utf-8'))
+          .to.equal('var a = 1;\n\n//# sourceMappingURL=a.dart.map\n');
+      let sourceMap = JSON.parse(fs.readFileSync(path.join(dir, 'a.dart.map'), 'utf-8'));
+      chai.expect(sourceMap.file).to.equal('a.dart');
+      chai.expect(sourceMap.sources).to.deep.equal(['a.ts']);
+      chai.expect(sourceMap.sourcesContent).to.deep.equal(['var a = 1;']);
+    });
+    it('chains input source maps', () => {
+      let input = new SourceMapGenerator({file: 'a.ts'});
+      input.addMapping(
+          {generated: {line: 2, column: 2}, original: {line: 10, column: 4}, source: 'a.src'});
+      let inputUrl =
+          'data:application/json;base64,' + new Buffer(input.toString()).toString('base64');
+      let transpiler = new main.Transpiler({generateSourceMap: true});
+      let code = transpiler.translateProgram(parseFiles({
+        'lib/a.ts': `function f() {\n  return 1;\n}\n//# sourceMappingURL=${inputUrl}`
+      }))['lib/a.ts'];
+      chai.expect(code.match(/sourceMappingURL/g).length).to.equal(1);
+      chai.expect(readInlineSourceMap(code).originalPositionFor({line: 2, column: 2}))
+          .to.deep.equal({source: 'lib/a.src', line: 10, column: 4, name: null});
+    });
+    it('reports missing input source maps', () => {
+      let transpiler = new main.Transpiler({generateSourceMap: true});
+      chai.expect(
+              () => transpiler.translateProgram(
+                  parseFiles({'a.ts': 'var a = 1;\n//# sourceMappingURL=missing.js.map'})))
+          .to.throw(/a\.ts:1:1: TS2D9002: cannot find source map missing\.js\.map/);
+    });
+  });
+
+  describe('in-memory translation', () => {
+    it('translates sources with imports', () => {
+      let result = main.translateSources({
+        'a.ts': 'import {b} from "./b";\nvar a = b;',
+        'b.ts': 'export var b = 1;',
+      });
+      chai.expect(result.files).to.deep.equal({
+        'a.ts': {code: 'import "b.dart" show b;\n\nvar a = b;\n'},
+        'b.ts': {code: 'var b = 1;\n'},
+      });
+      chai.expect(result.diagnostics).to.deep.equal([]);
+    });
+    it('translates builtins using the default library', () => {
+      let result = main.translateSources(
+          {'a.ts': 'function f(xs: number[]) { xs.push(1); }'}, {translateBuiltins: true});
+      chai.expect(result.files['a.ts'].code).to.equal('f(List<num> xs) {\n  xs.add(1);\n}\n');
+    });
+    it('returns source maps', () => {
+      let result = main.translateSources({'a.ts': 'var a = 1;'}, {generateSourceMap: true});
+      chai.expect(JSON.parse(result.files['a.ts'].sourceMap).sources).to.deep.equal(['a.ts']);
+    });
+    it('returns diagnostics instead of failing', () => {
+      let result = main.translateSources({'a.ts': 'var a = 1;', 'b.ts': 'var b = /b/;'});
+      chai.expect(Object.keys(result.files)).to.deep.equal(['a.ts', 'b.ts']);
+      chai.expect(result.diagnostics.map((d) => [d.file, d.code])).to.deep.equal([
+        ['b.ts', 'TS2D1005'],
+      ]);
+    });
+  });
+
+  describe('watch mode', () => {
+    let dir: string;
+    let watcher: main.Watcher;
+    beforeEach(() => {
+      dir =
+          makeTempDir({'a.ts': 'import {x} from "./b";\nvar y = x;', 'b.ts': 'export var x = 1;'});
+    });
+    afterEach(() => {
+      if (watcher) watcher.close();
+      watcher = null;
+    });
+
+    // Give the watcher time to pick up the initial file state before modifying it.
+    let modify = (fileName: string, content: string) =>
+        setTimeout(() => fs.writeFileSync(path.join(dir, fileName), content), 500);
+
+    let watch = (options: main.TranspilerOptions, cycles: main.WatchCallback[]) => {
+      let transpiler = new main.Transpiler(options);
+      let files = [path.join(dir, 'a.ts'), path.join(dir, 'b.ts')];
+      watcher = transpiler.watch(files, dir, (error, outputFiles) => {
+        let cycle = cycles.shift();
+        if (cycle) cycle(error, outputFiles.map((f) => path.basename(f)).sort());
+      });
+    };
+
+    it('only rewrites changed files', (done) => {
+      watch({basePath: dir}, [
+        (error, outputFiles) => {
+          chai.expect(outputFiles).to.deep.equal(['a.dart', 'b.dart']);
+          modify('a.ts', 'import {x} from "./b";\nvar y = x + 1;');
+        },
+        (error, outputFiles) => {
+          chai.expect(error).to.equal(null);
+          chai.expect(outputFiles).to.deep.equal(['a.dart']);
+          chai.expect(fs.readFileSync(path.join(dir, 'a.dart'), 'utf-8'))
+              .to.equal('import "b.dart" show x;\n\nvar y = x + 1;\n');
+          done();
+        },
+      ]);
+    });
+    it('rewrites importing files', (done) => {
+      fs.writeFileSync(path.join(dir, 'a.ts'), 'import B from "./b";\nvar b = new B();');
+      fs.writeFileSync(path.join(dir, 'b.ts'), 'export default class B {}');
+      watch({basePath: dir}, [
+        (error, outputFiles) => { modify('b.ts', 'export default class C {}'); },
+        (error, outputFiles) => {
+          chai.expect(outputFiles).to.deep.equal(['a.dart', 'b.dart']);
+          chai.expect(fs.readFileSync(path.join(dir, 'a.dart'), 'utf-8')).to.equal(RENAMED_IMPORT);
+          done();
+        },
+      ]);
+    });
+    it('rewrites importing files when translating builtins', (done) => {
+      watch({basePath: dir, translateBuiltins: true}, [
+        (error, outputFiles) => { modify('b.ts', 'export var x = 2;'); },
+        (error, outputFiles) => {
+          chai.expect(outputFiles).to.deep.equal(['a.dart', 'b.dart']);
+          done();
+        },
+      ]);
+    });
+    it('reports errors without stopping', (done) => {
+      watch({basePath: dir}, [
+        (error, outputFiles) => { modify('a.ts', 'delete x.y;'); },
+        (error, outputFiles) => {
+          chai.expect(error.message).to.match(/a\.ts:1:1: TS2D1002: delete operator/);
+          modify('a.ts', 'var y = 3;');
+        },
+        (error, outputFiles) => {
+          chai.expect(error).to.equal(null);
+          chai.expect(outputFiles).to.deep.equal(['a.dart']);
+          done();
+        },
+      ]);
+    });
+  });
+
+  describe('projects', () => {
+    let dir: string;
+    beforeEach(() => { dir = makeTempDir({'a.ts': 'var a = 1;', 'b.ts': 'var b = 1;'}); });
+    let writeConfig = (config: any) =>
+        fs.writeFileSync(path.join(dir, 'tsconfig.json'), JSON.stringify(config));
+
+    it('translates the files of a tsconfig.json', () => {
+      writeConfig({files: ['a.ts']});
+      new main.Transpiler({project: path.join(dir, 'tsconfig.json')}).transpile([]);
+      chai.expect(fs.readFileSync(path.join(dir, 'a.dart'), 'utf-8')).to.equal('var a = 1;\n');
+      chai.expect(fs.existsSync(path.join(dir, 'b.dart'))).to.equal(false);
+    });
+    it('finds tsconfig.json in a directory and honors excludes', () => {
+      writeConfig({exclude: ['b.ts']});
+      new main.Transpiler({project: dir}).transpile([]);
+      chai.expect(fs.existsSync(path.join(dir, 'a.dart'))).to.equal(true);
+      chai.expect(fs.existsSync(path.join(dir, 'b.dart'))).to.equal(false);
+    });
+    it('reports errors in tsconfig.json', () => {
+      writeConfig({compilerOptions: {noSuchOption: true}});
+      chai.expect(() => new main.Transpiler({project: dir}).transpile([]))
+          .to.throw(/Unknown compiler option 'noSuchOption'/);
+    });
+  });
+
+  describe('audit', () => {
+    let dir: string;
+    beforeEach(() => {
+      dir = makeTempDir({
+        'a.ts': 'function f(x) { debugger; delete x.y; }',
+        'b.ts': 'var b = 1;',
+        'c.ts': 'declare var x: any;\nfunction g() { x.push(1); }',
+      });
+    });
+
+    it('reports translatability without writing files', () => {
+      let transpiler = new main.Transpiler({basePath: dir, translateBuiltins: true});
+      let report = transpiler.audit(['a.ts', 'b.ts', 'c.ts'].map((f) => path.join(dir, f)));
+      chai.expect(fs.readdirSync(dir).sort()).to.deep.equal(['a.ts', 'b.ts', 'c.ts']);
+      chai.expect(report.files).to.deep.equal({
+        'a.ts': {passed: false, errors: 2, warnings: 0},
+        'b.ts': {passed: true, errors: 0, warnings: 0},
+        'c.ts': {passed: false, errors: 1, warnings: 0},
+      });
+      chai.expect(report.unsupportedKinds).to.deep.equal({'DebuggerStatement': 1});
+      chai.expect(report.codes).to.deep.equal({'TS2D1000': 1, 'TS2D1002': 1, 'TS2D1400': 1});
+      chai.expect(report.untypedPropertyAccesses.map((d) => [d.file, d.line, d.column]))
+          .to.deep.equal([['c.ts', 2, 16]]);
+    });
+    it('formats reports', () => {
+      let transpiler = new main.Transpiler({basePath: dir});
+      let report = transpiler.audit(['a.ts', 'b.ts'].map((f) => path.join(dir, f)));
+      chai.expect(main.formatAuditReport(report))
+          .to.equal(
+              'Files: 1 passed, 1 failed\n' +
+              '  FAIL a.ts (2 error(s), 0 warning(s))\n' +
+              '  pass b.ts (0 error(s), 0 warning(s))\n' +
+              'Unsupported syntax:\n' +
+              '  DebuggerStatement: 1\n' +
+              'Problems by code:\n' +
+              '  TS2D1000: 1\n' +
+              '  TS2D1002: 1');
+    });
+  });
+
+  describe('manifest', () => {
+    let dir: string;
+    let out: string;
+    beforeEach(() => {
+      dir = makeTempDir({'a.ts': 'var a = 1;', 'b.ts': 'var b = 1;'});
+      out = path.join(dir, 'out');
+    });
+    let transpile = () => new main.Transpiler({basePath: dir, manifest: true})
+                              .transpile(['a.ts', 'b.ts'].map((f) => path.join(dir, f)), out);
+    let readManifest = () =>
+        JSON.parse(fs.readFileSync(path.join(out, '.ts2dart-manifest.json'), 'utf-8'));
+
+    it('records inputs and outputs', () => {
+      transpile();
+      let manifest = readManifest();
+      chai.expect(Object.keys(manifest.files)).to.deep.equal(['a.ts', 'b.ts']);
+      chai.expect(manifest.files['a.ts'].output).to.equal('a.dart');
+      chai.expect(manifest.files['a.ts'].hash).to.match(/^[0-9a-f]{40}$/);
+    });
+    it('skips unchanged inputs', () => {
+      transpile();
+      fs.writeFileSync(path.join(out, 'a.dart'), 'untouched');
+      fs.writeFileSync(path.join(dir, 'b.ts'), 'var b = 2;');
+      transpile();
+      chai.expect(fs.readFileSync(path.join(out, 'a.dart'), 'utf-8')).to.equal('untouched');
+      chai.expect(fs.readFileSync(path.join(out, 'b.dart'), 'utf-8')).to.equal('var b = 2;\n');
+    });
+    it('translates again when an imported module changes', () => {
+      fs.writeFileSync(path.join(dir, 'a.ts'), 'import B from "./b";\nvar b = new B();');
+      fs.writeFileSync(path.join(dir, 'b.ts'), 'export default class B {}');
+      transpile();
+      fs.writeFileSync(path.join(dir, 'b.ts'), 'export default class C {}');
+      transpile();
+      chai.expect(fs.readFileSync(path.join(out, 'a.dart'), 'utf-8')).to.equal(RENAMED_IMPORT);
+    });
+    it('translates again when the facade config file changes', () => {
+      let facadeConfig = path.join(dir, 'facades.json');
+      let transpileWithConfig = () =>
+          new main.Transpiler({basePath: dir, manifest: true, facadeConfig})
+              .transpile([path.join(dir, 'a.ts')], out);
+      fs.writeFileSync(facadeConfig, '{"x": {"types": {"A": "B"}}}');
+      transpileWithConfig();
+      fs.writeFileSync(path.join(out, 'a.dart'), 'untouched');
+      fs.writeFileSync(facadeConfig, '{"x": {"types": {"A": "C"}}}');
+      transpileWithConfig();
+      chai.expect(fs.readFileSync(path.join(out, 'a.dart'), 'utf-8')).to.equal('var a = 1;\n');
+    });
+    it('only translates again when options affecting translations change', () => {
+      let transpileWith = (options: main.TranspilerOptions) => {
+        options.basePath = dir;
+        options.manifest = true;
+        new main.Transpiler(options).transpile([path.join(dir, 'a.ts')], out);
+      };
+      transpileWith({importRewrites: [{pattern: /^x$/, replacement: 'dart:x'}]});
+      fs.writeFileSync(path.join(out, 'a.dart'), 'untouched');
+      transpileWith({
+        importRewrites: [{pattern: /^x$/, replacement: 'dart:x'}],
+        packageVersions: {'x': '^1.0.0'},
+      });
+      chai.expect(fs.readFileSync(path.join(out, 'a.dart'), 'utf-8')).to.equal('untouched');
+      transpileWith({importRewrites: [{pattern: /^y$/, replacement: 'dart:x'}]});
+      chai.expect(fs.readFileSync(path.join(out, 'a.dart'), 'utf-8')).to.equal('var a = 1;\n');
+    });
+    it('does not skip inputs with plugins', () => {
+      let plugins = [{visitNode: (): boolean => false}];
+      let transpileWithPlugins = () => new main.Transpiler({basePath: dir, manifest: true, plugins})
+                                           .transpile([path.join(dir, 'a.ts')], out);
+      transpileWithPlugins();
+      fs.writeFileSync(path.join(out, 'a.dart'), 'untouched');
+      transpileWithPlugins();
+      chai.expect(fs.readFileSync(path.join(out, 'a.dart'), 'utf-8')).to.equal('var a = 1;\n');
+    });
+    it('only writes changed outputs', () => {
+      transpile();
+      fs.utimesSync(path.join(out, 'a.dart'), 1000, 1000);
+      fs.writeFileSync(path.join(dir, 'a.ts'), 'var a  =  1;');
+      transpile();
+      chai.expect(fs.statSync(path.join(out, 'a.dart')).mtime.getTime()).to.equal(1000000);
+      chai.expect(readManifest().files['a.ts'].hash).to.not.equal(undefined);
+    });
+    it('deletes outputs of deleted inputs', () => {
+      transpile();
+      fs.unlinkSync(path.join(dir, 'b.ts'));
+      new main.Transpiler({basePath: dir, manifest: true}).transpile([path.join(dir, 'a.ts')], out);
+      chai.expect(fs.existsSync(path.join(out, 'b.dart'))).to.equal(false);
+      chai.expect(Object.keys(readManifest().files)).to.deep.equal(['a.ts']);
+    });
+    it('does not record inputs with errors', () => {
+      fs.writeFileSync(path.join(dir, 'b.ts'), 'delete b.c;');
+      chai.expect(transpile).to.throw(/TS2D1002/);
+      chai.expect(Object.keys(readManifest().files)).to.deep.equal(['a.ts']);
+      chai.expect(transpile).to.throw(/TS2D1002/);
+    });
+  });
+
+  describe('worker processes', () => {
+    let dir: string;
+    let fileNames: string[];
+    beforeEach(() => {
+      dir = makeTempDir({
+        'a.ts': 'var a = 1;',
+        'b.ts': 'function f(b) { delete b.c; }',
+        'c.ts': 'function g(c) { delete c.d; }',
+      });
+      fileNames = ['a.ts', 'b.ts', 'c.ts'].map((f) => path.join(dir, f));
+    });
+
+    it('writes the same outputs as a single process', (done) => {
+      let transpiler = new main.Transpiler({basePath: dir, lenient: true});
+      transpiler.transpileInWorkers(fileNames, path.join(dir, 'out'), 2, (error, written) => {
+        chai.expect(error).to.equal(null);
+        chai.expect(written).to.deep.equal(['a.dart', 'b.dart', 'c.dart'].map(
+            (f) => path.join(dir, 'out', f).replace(/\\/g, '/')));
+        new main.Transpiler({basePath: dir, lenient: true})
+            .transpile(fileNames, path.join(dir, 'single'));
+        ['a.dart', 'b.dart', 'c.dart'].forEach((f) => {
+          chai.expect(fs.readFileSync(path.join(dir, 'out', f), 'utf-8'))
+              .to.equal(fs.readFileSync(path.join(dir, 'single', f), 'utf-8'));
+        });
+        done();
+      });
+    });
+    it('merges diagnostics in order', (done) => {
+      let transpiler = new main.Transpiler({basePath: dir});
+      transpiler.transpileInWorkers(fileNames, path.join(dir, 'out'), 3, (error) => {
+        chai.expect(error.name).to.equal('TS2DartError');
+        chai.expect(transpiler.getDiagnostics().map((d) => d.file)).to.deep.equal(['b.ts', 'c.ts']);
+        done();
+      });
+    });
+    it('finishes without inputs', (done) => {
+      let transpiler = new main.Transpiler({basePath: dir});
+      transpiler.transpileInWorkers([], path.join(dir, 'out'), 2, (error, written) => {
+        chai.expect(error).to.equal(null);
+        chai.expect(written).to.deep.equal([]);
+        done();
+      });
+    });
+    it('rejects plugins', (done) => {
+      let plugin = {visitNode: () => false};
+      let transpiler = new main.Transpiler({basePath: dir, plugins: [plugin]});
+      transpiler.transpileInWorkers(fileNames, path.join(dir, 'out'), 2, (error) => {
+        chai.expect(error.message).to.match(/Plugins are not supported/);
+        done();
+      });
+    });
+  });
+
+  describe('dependencies', () => {
+    let dir: string;
+    beforeEach(() => {
+      dir = makeTempDir({
+        'a.ts': 'import {b} from "./b";\nimport {x} from "foo/x";\nexport {y} from "bar/y/z";\n' +
+            'function f(p: Promise<any>) {}',
+        'b.ts': 'export var b = 1;',
+      });
+    });
+    let transpile = (options: main.TranspilerOptions) => {
+      let transpiler = new main.Transpiler(options);
+      transpiler.transpile(['a.ts', 'b.ts'].map((f) => path.join(dir, f)), path.join(dir, 'out'));
+      return transpiler;
+    };
+    let readPubspec = () => fs.readFileSync(path.join(dir, 'pubspec.yaml'), 'utf-8');
+
+    it('collects imported packages and Dart libraries', () => {
+      chai.expect(transpile({basePath: dir, lenient: true}).getDependencies()).to.deep.equal({
+        packages: ['bar', 'foo'],
+        dartLibraries: ['dart:async'],
+      });
+    });
+    it('collects the dependencies of files skipped with a manifest', () => {
+      transpile({basePath: dir, lenient: true, manifest: true});
+      chai.expect(transpile({basePath: dir, lenient: true, manifest: true}).getDependencies())
+          .to.deep.equal({packages: ['bar', 'foo'], dartLibraries: ['dart:async']});
+    });
+    it('creates a pubspec.yaml', () => {
+      transpile({
+        basePath: dir,
+        lenient: true,
+        pubspec: path.join(dir, 'pubspec.yaml'),
+        packageVersions: {'foo': '^1.0.0'},
+      });
+      chai.expect(readPubspec()).to.equal('dependencies:\n  bar: any\n  foo: ^1.0.0\n');
+    });
+    it('updates an existing pubspec.yaml', () => {
+      fs.writeFileSync(
+          path.join(dir, 'pubspec.yaml'), 'name: bar\ndependencies:\n  foo: \'>=0.1.0\'\n');
+      transpile({basePath: dir, lenient: true, pubspec: path.join(dir, 'pubspec.yaml')});
+      chai.expect(readPubspec()).to.equal('name: bar\ndependencies:\n  foo: \'>=0.1.0\'\n');
+      transpile({
+        basePath: dir,
+        lenient: true,
+        pubspec: path.join(dir, 'pubspec.yaml'),
+        packageVersions: {'foo': '^1.0.0'},
+      });
+      chai.expect(readPubspec()).to.equal('name: bar\ndependencies:\n  foo: ^1.0.0\n');
+    });
+    it('keeps comments and formatting of an existing pubspec.yaml', () => {
+      fs.writeFileSync(
+          path.join(dir, 'pubspec.yaml'),
+          '# The app.\nname: app\ndependencies:\n    foo:\n        git: git://x/foo.git\n' +
+              '    # Pinned.\n    baz: \'>=0.1.0\'  # old\n\n# Tools.\ndev_dependencies:\n' +
+              '    test: any\n');
+      transpile({
+        basePath: dir,
+        lenient: true,
+        pubspec: path.join(dir, 'pubspec.yaml'),
+        packageVersions: {'foo': '^1.0.0'},
+      });
+      chai.expect(readPubspec())
+          .to.equal(
+              '# The app.\nname: app\ndependencies:\n    foo: ^1.0.0\n    # Pinned.\n' +
+              '    baz: \'>=0.1.0\'  # old\n    bar: any\n\n# Tools.\ndev_dependencies:\n' +
+              '    test: any\n');
+    });
+  });
+
   describe('output paths', () => {
     it('writes within the path', () => {
       let transpiler = new main.Transpiler({basePath: '/a'});
@@ -118,6 +684,18 @@ class A {
       chai.expect(transpiler.getOutputPath('b/c.js', 'x')).to.equal('x/b/c.dart');
       chai.expect(() => transpiler.getOutputPath('/outside/b/c.js', '/x'))
           .to.throw(/must be located under base/);
+      chai.expect(() => transpiler.getOutputPath('/a2/b/c.js', '/x'))
+          .to.throw(/must be located under base/);
+    });
+    it('does not resolve imports to sibling directories of the base path', () => {
+      let dir = makeTempDir({
+        'a/main.ts': 'import {x} from "../a2";\nvar y = x;',
+        'a2/index.ts': 'export var x = 1;'
+      });
+      let transpiler = new main.Transpiler({basePath: path.join(dir, 'a')});
+      transpiler.transpile([path.join(dir, 'a', 'main.ts')], path.join(dir, 'out'));
+      chai.expect(fs.readFileSync(path.join(dir, 'out', 'main.dart'), 'utf-8'))
+          .to.contain('import "../a2.dart" show x;');
     });
     it('defaults to writing to the same location', () => {
       let transpiler = new main.Transpiler({basePath: undefined});
@@ -8,26 +8,126 @@ import {expectTranslate, expectErroneousCode, translateSources} from './test_sup
 
 describe('imports', () => {
   it('translates import equals statements', () => {
-    expectTranslate('import x = require("y");').to.equal('import "package:y.dart" as x;');
+    expectTranslate('import x = require("y");\nvar z = x.f();')
+        .to.equal('import "package:y.dart" as x;\n\nvar z = x.f();');
   });
   it('translates import from statements', () => {
-    expectTranslate('import {x,y} from "z";').to.equal('import "package:z.dart" show x, y;');
+    expectTranslate('import {x,y} from "z";\nvar z = x(y);')
+        .to.equal('import "package:z.dart" show x, y;\n\nvar z = x(y);');
   });
   it('translates import star', () => {
-    expectTranslate('import * as foo from "z";').to.equal('import "package:z.dart" as foo;');
+    expectTranslate('import * as foo from "z";\nvar z = foo.f();')
+        .to.equal('import "package:z.dart" as foo;\n\nvar z = foo.f();');
   });
   it('allows import dart file from relative path', () => {
-    expectTranslate('import x = require("./y")').to.equal('import "y.dart" as x;');
-    expectTranslate('import {x} from "./y"').to.equal('import "y.dart" show x;');
-    expectTranslate('import {x} from "../y"').to.equal('import "../y.dart" show x;');
+    expectTranslate('import x = require("./y");\nvar z = x.f();')
+        .to.equal('import "y.dart" as x;\n\nvar z = x.f();');
+    expectTranslate('import {x} from "./y";\nvar z = x;')
+        .to.equal('import "y.dart" show x;\n\nvar z = x;');
+    expectTranslate('import {x} from "../y";\nvar z = x;')
+        .to.equal('import "../y.dart" show x;\n\nvar z = x;');
   });
+  it('imports index files', () => {
+    let results = translateSources({
+      'angular2/some/main.ts': 'import {x} from "./x";\nimport {y} from "../y";\nvar z = x + y;',
+      'angular2/some/x/index.ts': 'export var x = 1;',
+      'angular2/y/index.ts': 'export var y = 1;',
+    });
+    chai.expect(results['angular2/some/main.ts'])
+        .to.equal(
+            'import "x/index.dart" show x;\nimport "../y/index.dart" show y;\n\nvar z = x + y;\n');
+  });
+  it('rewrites module names using a mapping', () => {
+    expectTranslate('import {Observable} from "rxjs/Observable";\nvar o: Observable;', {
+      importRewrites: {'rxjs/Observable': 'dart:async'},
+    }).to.equal('import "dart:async" show Observable;\n\nObservable o;');
+  });
+  it('rewrites module names using rules', () => {
+    let importRewrites = [
+      {pattern: '^@scope/(.*)$', replacement: 'package:$1.dart'},
+      {pattern: /^\.\/(.*)$/, replacement: 'package:self/$1.dart'},
+    ];
+    expectTranslate('import {x} from "@scope/pkg/x";\nvar y = x;', {importRewrites})
+        .to.equal('import "package:pkg/x.dart" show x;\n\nvar y = x;');
+    expectTranslate('export * from "./y";', {importRewrites})
+        .to.equal('export "package:self/y.dart";');
+    expectTranslate('import {z} from "z";\nvar y = z;', {importRewrites})
+        .to.equal('import "package:z.dart" show z;\n\nvar y = z;');
+  });
+  it('translates side effect imports',
+     () => { expectTranslate('import "./polyfills";').to.equal('import "polyfills.dart";'); });
   it('handles ignored annotations in imports', () => {
     expectTranslate('import {CONST, CONST_EXPR, IMPLEMENTS, ABSTRACT} from "x"').to.equal('');
-    expectTranslate('import {x, IMPLEMENTS} from "./x"').to.equal('import "x.dart" show x;');
+    expectTranslate(
+        'import {x, normalizeBlank} from "angular2/src/facade/lang";\n' +
+        'var y = normalizeBlank(x);')
+        .to.equal(
+            'import "package:angular2/src/facade/lang.dart" show x;\n\nvar y = normalizeBlank(x);');
+  });
+  it('ignores imports listed in the facade configuration', () => {
+    let results = translateSources(
+        {
+          'angular2/main.ts': 'import {a, b} from "./lib";\nvar c = a + b;',
+          'angular2/lib.d.ts': 'export declare var a: number, b: number;',
+        },
+        {facadeConfig: {'angular2/lib': {ignoredImports: ['b']}}});
+    chai.expect(results['angular2/main.ts'])
+        .to.equal('import "lib.dart" show a;\n\nvar c = a + b;\n');
+  });
+  it('prunes imports that are not referenced after translation', () => {
+    expectTranslate('import {a, b} from "./a";\nimport * as c from "./c";\nvar x: a;')
+        .to.equal('import "a.dart" show a;\n\na x;');
+  });
+  it('does not count comments, strings and member names as references', () => {
+    expectTranslate('import {a, b, c} from "./a";\n/* b */\nvar x = y.b + a + "c";')
+        .to.equal('import "a.dart" show a;\n\n/* b */\nvar x = y.b + a + "c";');
+  });
+  it('translates renamed imports to prefixed imports', () => {
+    expectTranslate('import {Foo as Bar, x} from "baz";\nvar b: Bar = new Bar(x);')
+        .to.equal(
+            'import "package:baz.dart" show x;\nimport "package:baz.dart" as baz;\n\n' +
+            'baz.Foo b = new baz.Foo(x);');
+    expectTranslate('import {a as b} from "./a";\nfunction f(c) { var b = 1; return b + c; }')
+        .to.equal('f(c) {\n  var b = 1;\n  return b + c;\n}');
+  });
+  it('generates unique library prefixes', () => {
+    let results = translateSources({
+      'angular2/some/main.ts': 'import {a as b} from "./a";\nimport {c as d} from "x/a";\n' +
+          'var a = b + d;',
+      'angular2/some/a.ts': 'export var a = 1;',
+    });
+    chai.expect(results['angular2/some/main.ts'])
+        .to.equal(
+            'import "a.dart" as a_;\nimport "package:x/a.dart" as a__;\n\n' +
+            'var a = a_.a + a__.c;\n');
+  });
+  it('does not use built-in identifiers as names', () => {
+    let results = translateSources({
+      'angular2/main.ts': 'import {a as b} from "./part";\nvar c = b;',
+      'angular2/part.ts': 'export var a = 1;\nexport default 2;',
+    });
+    chai.expect(results['angular2/main.ts'])
+        .to.equal('import "part.dart" as part_;\n\nvar c = part_.a;\n');
+    chai.expect(results['angular2/part.ts']).to.equal('var a = 1;\nfinal part_ = 2;\n');
+  });
+  it('translates imports of modules with export assignments', () => {
+    let results = translateSources({
+      'angular2/main.ts': 'import Foo = require("./foo");\nimport b = require("./bar");\n' +
+          'import N = require("./ns");\nvar x = new Foo(b, N.y);',
+      'angular2/foo.ts': 'class Foo {}\nexport = Foo;',
+      'angular2/bar.ts': 'export = 1 + 2;',
+      'angular2/ns.ts': 'namespace NS {\n  export var y = 1;\n}\nexport = NS;',
+    });
+    chai.expect(results['angular2/main.ts'])
+        .to.equal(
+            'import "foo.dart" show Foo;\nimport "bar.dart" as bar;\nimport "ns.dart" show NS_y;\n' +
+            '\nvar x = new Foo(bar.bar, NS_y);\n');
   });
-  it('fails for renamed imports', () => {
-    expectErroneousCode('import {Foo as Bar} from "baz";')
-        .to.throw(/import\/export renames are unsupported in Dart/);
+  it('resolves entity name aliases', () => {
+    expectTranslate(
+        'namespace A.B {\n  export class C {}\n  export var d = 1;\n}\nimport C = A.B.C;\n' +
+        'import AB = A.B;\nvar x: C = new C(AB.d);')
+        .to.equal('class A_B_C {}\n\nvar A_B_d = 1;\nA_B_C x = new A_B_C(A_B_d);');
   });
   it('fails for empty import specs',
      () => { expectErroneousCode('import {} from "baz";').to.throw(/empty import list/); });
@@ -43,20 +143,213 @@ describe('exports', () => {
      () => { expectTranslate('export * from "X";').to.equal('export "package:X.dart";'); });
   it('allows export declarations',
      () => { expectTranslate('export * from "./X";').to.equal('export "X.dart";'); });
+  it('hides shadowed names of export declarations', () => {
+    let results = translateSources({
+      'angular2/main.ts': 'export * from "./x";\nexport * from "./y";\nexport var a = 1;',
+      'angular2/x.ts': 'export * from "./z";\nexport var a = 1, b = 2;',
+      'angular2/y.ts': 'export * from "./z";\nexport var b = 1;',
+      'angular2/z.ts': 'export var c = 1;',
+    });
+    chai.expect(results['angular2/main.ts'])
+        .to.equal('export "x.dart" hide a;\nexport "y.dart" hide b;\n\nvar a = 1;\n');
+  });
+  it('translates export assignments', () => {
+    expectTranslate('class Foo {}\nexport = Foo;').to.equal('class Foo {}');
+    expectTranslate('export = {a: 1};').to.equal('final main = {"a": 1};');
+  });
   it('allows named export declarations', () => {
     expectTranslate('export {a, b} from "X";').to.equal('export "package:X.dart" show a, b;');
   });
-  it('fails for renamed exports', () => {
-    expectErroneousCode('export {Foo as Bar} from "baz";')
-        .to.throw(/import\/export renames are unsupported in Dart/);
+  it('forwards renamed exports', () => {
+    let results = translateSources({
+      'angular2/some/main.ts': 'export {f as g, v as w, x} from "./a";\nfunction h() {}\n' +
+          'export {h as i};',
+      'angular2/some/a.ts': 'export function f() {}\nexport var v = 1;\nexport var x = 2;',
+    });
+    chai.expect(results['angular2/some/main.ts'])
+        .to.equal(
+            'import "a.dart" as a;\nexport "a.dart" show x;\n\n_h() {}\n' +
+            'get i => _h;\nget g => a.f;\nget w => a.v;\n');
+  });
+  it('fails for renamed class exports', () => {
+    expectErroneousCode({
+      'angular2/some/main.ts': 'export {Foo as Bar} from "./a";',
+      'angular2/some/a.ts': 'export class Foo {}',
+    }).to.throw(/cannot rename export Foo, only functions and variables/);
+  });
+  it('makes declarations missing from local export lists private', () => {
+    expectTranslate(
+        'class A {}\nclass B extends A {}\nfunction f(a: A) { return new B(); }\n' +
+        'var x = 1, y = f(null);\nexport var z = 1;\nexport {B, f as g};')
+        .to.equal(
+            'class _A {}\n\nclass B extends _A {}\n\n_f(_A a) {\n  return new B();\n}\n\n' +
+            'var _x = 1, _y = _f(null);\nvar z = 1;\nget g => _f;');
+  });
+  it('makes non-exported declarations private if requested', () => {
+    let options = {privatizeNonExported: true};
+    expectTranslate(
+        'enum E {A}\nclass C {}\nfunction f(c: C) { return E.A; }\nvar _v = f(new C());\n' +
+            'export function g() { return f(null); }',
+        options)
+        .to.equal(
+            'enum _E { A }\n\nclass _C {}\n\n_f(_C c) {\n  return _E.A;\n}\n\n' +
+            'var _v = _f(new _C());\ng() {\n  return _f(null);\n}');
+    // Scripts declare globals.
+    expectTranslate('var v = 1;', options).to.equal('var v = 1;');
+    expectTranslate('var v = 1;\nexport var w = v;').to.equal('var v = 1;\nvar w = v;');
   });
-  it('fails for exports without URLs', () => {
-    expectErroneousCode('export {a as b};').to.throw('re-exports must have a module URL');
+  it('picks unused names for private declarations', () => {
+    expectTranslate(
+        'function f() {}\nfunction _f() {}\nvar _f_ = f();\nexport function g() { return _f(); }',
+        {privatizeNonExported: true})
+        .to.equal('_f__() {}\n_f() {}\nvar _f_ = _f__();\ng() {\n  return _f();\n}');
+  });
+  it('re-exports imports in local export lists', () => {
+    let results = translateSources({
+      'angular2/some/main.ts': 'import {a, b as c} from "./a";\nexport {a, c};',
+      'angular2/some/a.ts': 'export var a = 1;\nexport var b = 1;',
+    });
+    chai.expect(results['angular2/some/main.ts'])
+        .to.equal(
+            'export "a.dart" show a;\nimport "a.dart" as a_;\n\n' +
+            'get c => a_.b;\n');
+  });
+  it('fails for exported namespace imports', () => {
+    expectErroneousCode({
+      'angular2/some/main.ts': 'import * as a from "./a";\nexport {a};',
+      'angular2/some/a.ts': 'export var a = 1;',
+    }).to.throw(/cannot export a, re-export its module instead/);
   });
   it('fails for empty export specs',
      () => { expectErroneousCode('export {} from "baz";').to.throw(/empty export list/); });
 });
 
+describe('namespaces', () => {
+  it('flattens declarations', () => {
+    expectTranslate(
+        'namespace Foo {\n  export class Bar {}\n  export function f(b: Foo.Bar) { return g(); }\n' +
+        '  function g() { return new Bar(); }\n  export var x = 1, y = Foo.f(null);\n}\n' +
+        'var z: Foo.Bar = new Foo.Bar(Foo.x);')
+        .to.equal(
+            'class Foo_Bar {}\n\nFoo_f(Foo_Bar b) {\n  return _Foo_g();\n}\n\n' +
+            '_Foo_g() {\n  return new Foo_Bar();\n}\n\nvar Foo_x = 1, Foo_y = Foo_f(null);\n' +
+            'Foo_Bar z = new Foo_Bar(Foo_x);');
+  });
+  it('flattens nested namespaces', () => {
+    expectTranslate(
+        'namespace A.B {\n  export enum E {X}\n}\nnamespace A {\n  export namespace C {\n' +
+        '    export var c = B.E.X;\n  }\n}\nvar d = A.C.c;')
+        .to.equal('enum A_B_E { X }\nvar A_C_c = A_B_E.X;\nvar d = A_C_c;');
+  });
+  it('handles namespaces merged with classes', () => {
+    expectTranslate(
+        'class Foo {\n  static a = 1;\n}\nnamespace Foo {\n  export function create() {}\n}\n' +
+        'var f = Foo.create(Foo.a);')
+        .to.equal(
+            'class Foo {\n  static var a = 1;\n}\n\nFoo_create() {}\nvar f = Foo_create(Foo.a);');
+  });
+  it('references namespaces in other files', () => {
+    let results = translateSources({
+      'angular2/some/main.ts': 'import {Foo} from "./ns";\nexport {Foo} from "./ns";\n' +
+          'var x = Foo.x;',
+      'angular2/some/ns.ts': 'export namespace Foo {\n  export var x = 1;\n' +
+          '  namespace Bar {\n    export function y() {}\n  }\n}',
+    });
+    chai.expect(results['angular2/some/main.ts'])
+        .to.equal(
+            'import "ns.dart" show Foo_x;\nexport "ns.dart" show Foo_x;\n\n' +
+            'var x = Foo_x;\n');
+  });
+  it('fails for statements in namespaces', () => {
+    expectErroneousCode('namespace Foo {\n  f();\n}')
+        .to.throw(/statements in namespaces are unsupported/);
+  });
+});
+
+describe('reserved words', () => {
+  it('escapes imported and exported names', () => {
+    let results = translateSources({
+      'angular2/main.ts':
+          'import {is, part as p} from "./foo";\nvar x = is(p);\nexport {is as factory};',
+      'angular2/foo.ts': 'export function is(x) {}\nexport var part = 1;',
+    });
+    chai.expect(results['angular2/main.ts']).to.equal(`import "foo.dart" show is$;
+import "foo.dart" as foo;
+
+var _x = is$(foo.part$);
+get factory$ => is$;
+`);
+  });
+});
+
+describe('default exports', () => {
+  it('exports declarations under their name', () => {
+    expectTranslate('export default class Foo {}').to.equal('class Foo {}');
+    expectTranslate('function f() {}\nexport default f;').to.equal('f() {}');
+  });
+  it('names expressions and anonymous declarations after their file', () => {
+    expectTranslate('export default 1 + 2;').to.equal('final main = 1 + 2;');
+    expectTranslate('var main = 1;\nexport default function() {}')
+        .to.equal('var main = 1;\nmain_() {}');
+    expectTranslate('export default class {}').to.equal('class main {}');
+  });
+  it('translates default imports', () => {
+    let results = translateSources({
+      'angular2/main.ts': 'import Foo, {bar} from "./foo";\nimport baz from "./baz";\n' +
+          'var x = new Foo(bar, baz);',
+      'angular2/foo.ts': 'export default class Foo {}\nexport var bar = 1;',
+      'angular2/baz.ts': 'export default {a: 1};',
+    });
+    chai.expect(results['angular2/main.ts'])
+        .to.equal(
+            'import "foo.dart" show Foo, bar;\nimport "baz.dart" show baz;\n\n' +
+            'var x = new Foo(bar, baz);\n');
+  });
+  it('aliases default imports with a different local name', () => {
+    let results = translateSources({
+      'angular2/main.ts': 'import Bar, * as foo from "./foo";\nvar x = new Bar(foo.y);',
+      'angular2/foo.ts': 'export default class Foo {}\nexport var y = 1;',
+    });
+    chai.expect(results['angular2/main.ts'])
+        .to.equal(
+            'import "foo.dart" as foo;\nimport "foo.dart" as foo_;\n\n' +
+            'var x = new foo_.Foo(foo.y);\n');
+  });
+  it('re-exports imported default exports', () => {
+    let results = translateSources({
+      'angular2/main.ts': 'import Bar from "./foo";\nexport default Bar;',
+      'angular2/foo.ts': 'export default class Foo {}',
+    });
+    chai.expect(results['angular2/main.ts']).to.equal('export "foo.dart" show Foo;\n');
+  });
+});
+
+describe('dart:core names', () => {
+  it('qualifies dart:core references shadowed by declarations', () => {
+    expectTranslate('export class List {}\nvar a: number[];\nvar b: List;')
+        .to.equal(
+            'import "dart:core" hide List;\nimport "dart:core" as core;\n\nclass List {}\n\n' +
+            'core.List<num> a;\nList b;');
+  });
+  it('qualifies dart:core references shadowed by imports', () => {
+    let results = translateSources({
+      'angular2/main.ts': 'import {List} from "./list";\nvar x: List;\nvar y: string[];',
+      'angular2/list.ts': 'export class List {}',
+    });
+    chai.expect(results['angular2/main.ts'])
+        .to.equal(
+            'import "dart:core" hide List;\nimport "dart:core" as core;\n' +
+            'import "list.dart" show List;\n\nList x;\ncore.List<String> y;\n');
+  });
+  it('only imports dart:core if needed', () => {
+    expectTranslate('class Error {}\nvar core = 1;').to.equal('class Error {}\n\nvar core = 1;');
+    expectTranslate('class Map {}\nvar core: {[k: string]: number};')
+        .to.equal(
+            'import "dart:core" hide Map;\nimport "dart:core" as core_;\n\nclass Map {}\n\n' +
+            'core_.Map<String, num> core;');
+  });
+});
+
 describe('library name', () => {
   let transpiler: main.Transpiler;
   let modTranspiler: ModuleTranspiler;
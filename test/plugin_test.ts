@@ -0,0 +1,74 @@
+/// <reference path="../typings/chai/chai.d.ts"/>
+/// <reference path="../typings/mocha/mocha.d.ts"/>
+import chai = require('chai');
+import * as ts from 'typescript';
+import main = require('../lib/main');
+import {expectTranslate, translateSource} from './test_support';
+
+/** Translates calls to `log.debug(...)` into `print(...)`. */
+let logHook: main.VisitorHook = {
+  visitNode(node: ts.Node, context: main.TranspilerBase) {
+    if (node.kind !== ts.SyntaxKind.CallExpression) return false;
+    let call = <ts.CallExpression>node;
+    if (call.expression.getText() !== 'log.debug') return false;
+    context.emit('print(');
+    context.visitList(call.arguments);
+    context.emit(')');
+    return true;
+  }
+};
+
+/** Translates `typeof` for string typed expressions. */
+class StaticTypeOf extends main.TranspilerBase {
+  visitNode(node: ts.Node): boolean {
+    if (node.kind !== ts.SyntaxKind.TypeOfExpression) return false;
+    let operand = (<ts.TypeOfExpression>node).expression;
+    let type = this.getTypeChecker().getTypeAtLocation(operand);
+    if (!(type.flags & ts.TypeFlags.String)) return false;
+    this.emit('"string"');
+    return true;
+  }
+}
+
+/** Reports all `alert` identifiers, with a code of its own, and leaves them to be translated. */
+class NoAlerts extends main.TranspilerBase {
+  visitNode(node: ts.Node): boolean {
+    if (node.kind !== ts.SyntaxKind.Identifier || (<ts.Identifier>node).text !== 'alert') {
+      return false;
+    }
+    this.reportError(node, 'alert is forbidden', 'NOALERT1');
+    return false;
+  }
+}
+
+describe('plugins', () => {
+  it('supports visitor hooks', () => {
+    expectTranslate('function f() { log.debug("a", 1); log.info("b"); }', {
+      plugins: [logHook]
+    }).to.equal(`f() {
+  print("a", 1);
+  log.info("b");
+}`);
+  });
+  it('supports TranspilerBase subclasses with type information', () => {
+    expectTranslate('var x: string; var y = typeof x;', {
+      plugins: [StaticTypeOf]
+    }).to.equal('String x;\nvar y = "string";');
+    chai.expect(
+            () => translateSource('var x: number; var y = typeof x;', {plugins: [StaticTypeOf]}))
+        .to.throw(/typeof operator is unsupported/);
+  });
+  it('consults plugins in order, before built-in transpilers', () => {
+    expectTranslate('function f() { log.debug(typeof "a"); }', {
+      plugins: [logHook, StaticTypeOf]
+    }).to.equal(`f() {
+  print("string");
+}`);
+  });
+  it('allows plugins to report errors', () => {
+    chai.expect(() => translateSource('var a = alert;', {plugins: [NoAlerts]}))
+        .to.throw(/NOALERT1: alert is forbidden/);
+    expectTranslate('var a = alert;', {plugins: [NoAlerts], severities: {'NOALERT1': 'off'}})
+        .to.equal('var a = alert;');
+  });
+});
@@ -0,0 +1,61 @@
+/// <reference path="../typings/chai/chai.d.ts"/>
+/// <reference path="../typings/mocha/mocha.d.ts"/>
+import chai = require('chai');
+import fs = require('fs');
+import path = require('path');
+import main = require('../lib/main');
+
+import {makeTempDir} from './test_support';
+
+describe('mapping Dart errors', () => {
+  let dir: string;
+  let dartFile: string;
+  let tsFile: string;
+  let mapper: main.DartErrorMapper;
+  beforeEach(() => {
+    dir = makeTempDir({'a.ts': 'function f() {\n  var x = 1;\n  return y;\n}'});
+    dartFile = path.join(dir, 'a.dart');
+    // Mapped locations are relative to the working directory.
+    tsFile = path.relative(process.cwd(), path.join(dir, 'a.ts'));
+    mapper = new main.DartErrorMapper();
+  });
+  let transpile = (options: main.TranspilerOptions) => {
+    options.basePath = dir;
+    new main.Transpiler(options).transpile([path.join(dir, 'a.ts')], dir);
+  };
+
+  it('maps VM locations', () => {
+    transpile({externalSourceMap: true});
+    chai.expect(mapper.mapLine(`#0 f (file://${dartFile}:3:10)`)).to.equal(`#0 f (${tsFile}:3:10)`);
+    chai.expect(mapper.mapLine(`${dartFile}:2:3: Error: x`)).to.equal(`${tsFile}:2:3: Error: x`);
+  });
+  it('maps dartanalyzer locations', () => {
+    transpile({generateSourceMap: true});
+    chai.expect(mapper.mapLine(`[error] Undefined name 'y' (${dartFile}, line 3, col 10)`))
+        .to.equal(`[error] Undefined name 'y' (${tsFile}, line 3, col 10)`);
+    chai.expect(mapper.mapLine(`ERROR|STATIC_WARNING|UNDEFINED|${dartFile}|3|10|1|Undefined`))
+        .to.equal(`ERROR|STATIC_WARNING|UNDEFINED|${tsFile}|3|10|1|Undefined`);
+  });
+  it('maps to sources relative to the working directory', () => {
+    let srcDir = path.join(dir, 'src', 'sub');
+    fs.mkdirSync(path.join(dir, 'src'));
+    fs.mkdirSync(srcDir);
+    fs.writeFileSync(path.join(srcDir, 'b.ts'), 'var x = y;');
+    let outDir = path.join(dir, 'out');
+    new main.Transpiler({basePath: path.join(dir, 'src'), externalSourceMap: true})
+        .transpile([path.join(srcDir, 'b.ts')], outDir);
+    let cwd = process.cwd();
+    process.chdir(dir);
+    try {
+      chai.expect(mapper.mapLine('out/sub/b.dart:1:9: Error: y'))
+          .to.equal('src/sub/b.ts:1:9: Error: y');
+    } finally {
+      process.chdir(cwd);
+    }
+  });
+  it('leaves other locations unchanged', () => {
+    transpile({});
+    chai.expect(mapper.mapLine(`${dartFile}:3:10`)).to.equal(`${dartFile}:3:10`);
+    chai.expect(mapper.mapLine('other.dart:3:10 and text')).to.equal('other.dart:3:10 and text');
+  });
+});
@@ -0,0 +1,66 @@
+/// <reference path="../typings/chai/chai.d.ts"/>
+/// <reference path="../typings/mocha/mocha.d.ts"/>
+import chai = require('chai');
+import fs = require('fs');
+import path = require('path');
+import main = require('../lib/main');
+
+import {makeTempDir} from './test_support';
+
+describe('streams', () => {
+  let dir: string;
+  beforeEach(() => { dir = makeTempDir(); });
+
+  let file = (name: string, contents: string): main.VinylFile =>
+      ({cwd: dir, base: dir, path: path.join(dir, name), contents: new Buffer(contents)});
+
+  /** Writes `files` to a new stream, and calls `done` with the output or the error. */
+  let run =
+      (options: main.TranspilerOptions, files: main.VinylFile[],
+       done: (error: main.TS2DartError, output: {[fileName: string]: string}) => void) => {
+        let output: {[fileName: string]: string} = {};
+        let s = main.createStream(options);
+        s.on(
+            'data',
+            (f: main.VinylFile) => output[path.relative(dir, f.path)] = f.contents.toString());
+        s.on('error', (e: main.TS2DartError) => done(e, null));
+        s.on('end', () => done(null, output));
+        files.forEach((f) => s.write(f));
+        s.end();
+      };
+
+  it('translates files as a single program', (done) => {
+    fs.writeFileSync(path.join(dir, 'c.ts'), 'export class C {}');
+    let files = [
+      file('a.ts', 'import {B} from "./b";\nvar b = new B();'),
+      file('b.ts', 'import {C} from "./c";\nexport class B extends C {}'),
+      file('d.d.ts', 'declare var d: number;'),
+      file('README.md', 'Hello'),
+    ];
+    run({basePath: dir, translateBuiltins: true}, files, (error, output) => {
+      chai.expect(error).to.equal(null);
+      chai.expect(output).to.deep.equal({
+        'README.md': 'Hello',
+        'a.dart': 'import "b.dart" show B;\n\nvar b = new B();\n',
+        'b.dart': 'import "c.dart" show C;\n\nclass B extends C {}\n',
+      });
+      done();
+    });
+  });
+  it('emits source map files', (done) => {
+    run({basePath: dir, externalSourceMap: true}, [file('a.ts', 'var a = 1;')], (error, output) => {
+      chai.expect(Object.keys(output).sort()).to.deep.equal(['a.dart', 'a.dart.map']);
+      chai.expect(JSON.parse(output['a.dart.map']).file).to.equal('a.dart');
+      done();
+    });
+  });
+  it('emits structured errors', (done) => {
+    run({basePath: dir}, [file('a.ts', 'delete a.b;')], (error, output) => {
+      chai.expect(error.name).to.equal('TS2DartError');
+      chai.expect(error.diagnostics.map((d) => [d.file, d.code])).to.deep.equal([
+        ['a.ts', 'TS2D1002'],
+      ]);
+      done();
+    });
+  });
+});
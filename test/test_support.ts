@@ -3,6 +3,8 @@
 /// <reference path="../typings/node/node.d.ts"/>
 import chai = require('chai');
 import fs = require('fs');
+import os = require('os');
+import path = require('path');
 import main = require('../lib/main');
 import ts = require('typescript');
 
@@ -71,7 +73,8 @@ export function parseFiles(nameToContent: StringMap): ts.Program {
 
 export const FAKE_MAIN = 'angular2/some/main.ts';
 
-export function translateSources(contents: Input, options: main.TranspilerOptions = {}): StringMap {
+/** Creates a transpiler with the test defaults for `options`, and the program of `contents`. */
+function setUp(contents: Input, options: main.TranspilerOptions) {
   // Default to quick stack traces.
   if (!options.hasOwnProperty('failFast')) options.failFast = true;
   let namesToContent: StringMap;
@@ -82,14 +85,61 @@ export function translateSources(contents: Input, options: main.TranspilerOption
     namesToContent = contents;
   }
   options.enforceUnderscoreConventions = true;
-  let transpiler = new main.Transpiler(options);
-  let program = parseFiles(namesToContent);
+  return {transpiler: new main.Transpiler(options), program: parseFiles(namesToContent)};
+}
+
+export function translateSources(contents: Input, options: main.TranspilerOptions = {}): StringMap {
+  let {transpiler, program} = setUp(contents, options);
   return transpiler.translateProgram(program);
 }
 
+/** Translates `tsCode` and expects the messages of the warnings reported for it. */
+export function expectWarnings(tsCode: Input, options: main.TranspilerOptions = {}) {
+  let {transpiler, program} = setUp(tsCode, options);
+  transpiler.translateProgram(program);
+  let warnings = transpiler.getDiagnostics().filter((d) => d.severity === 'warning');
+  return chai.expect(warnings.map((d) => d.message));
+}
+
 
 export function translateSource(contents: Input, options: main.TranspilerOptions = {}): string {
   let results = translateSources(contents, options);
   // Return the main outcome, from 'main.ts'.
   return results[FAKE_MAIN];
 }
+
+let tempDirs: string[] = [];
+
+/**
+ * Creates a temporary directory containing `files`, keyed by path relative to the directory. The
+ * directory is removed after the current test.
+ */
+export function makeTempDir(files: StringMap = {}): string {
+  let dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ts2dart-'));
+  tempDirs.push(dir);
+  Object.keys(files).forEach((name) => {
+    let fileName = path.join(dir, name);
+    let parents: string[] = [];
+    for (let d = path.dirname(fileName); d !== dir; d = path.dirname(d)) parents.unshift(d);
+    parents.filter((d) => !fs.existsSync(d)).forEach((d) => fs.mkdirSync(d));
+    fs.writeFileSync(fileName, files[name]);
+  });
+  return dir;
+}
+
+function removeDir(dir: string) {
+  fs.readdirSync(dir).forEach((name) => {
+    let child = path.join(dir, name);
+    if (fs.lstatSync(child).isDirectory()) {
+      removeDir(child);
+    } else {
+      fs.unlinkSync(child);
+    }
+  });
+  fs.rmdirSync(dir);
+}
+
+afterEach(() => {
+  tempDirs.forEach(removeDir);
+  tempDirs = [];
+});